@@ -1,7 +1,6 @@
 import { createForm, min, max, Each } from "@kildevaeld/solid-form2";
 import { Show, For, createSignal, createEffect, untrack } from "solid-js";
 import "../styles/UserForm.css";
-import { ObservableList } from "@kildevaeld/model";
 
 interface User {
   firstName: string;
@@ -9,7 +8,7 @@ interface User {
   email: string;
   age: number;
   bio: string;
-  interests: ObservableList<string>;
+  interests: string[];
 }
 
 export default function UserForm() {
@@ -23,7 +22,7 @@ export default function UserForm() {
       email: "",
       age: 22,
       bio: "",
-      interests: new ObservableList<string>(["Hello"]),
+      interests: ["Hello"],
     }),
     validationMode: "submit",
     fields: {
@@ -33,7 +32,9 @@ export default function UserForm() {
       firstName: {
         required: true,
       },
-      interests: {},
+      interests: {
+        item: { required: true },
+      },
     },
     submit: async (values) => {
       setFormData(values);
@@ -50,15 +51,17 @@ export default function UserForm() {
   //   console.log(untrack(form.field('age').errors))
   // })
 
+  const interests = form.array("interests");
+
   const handleAddInterest = () => {
     const interest = prompt("Enter an interest:");
     if (interest) {
-      form.field("interests").value().push(interest);
+      interests.append(interest);
     }
   };
 
   const handleRemoveInterest = (index: number) => {
-    form.field("interests").value().remove(index);
+    interests.remove(index);
   };
 
   return (
@@ -156,10 +159,10 @@ export default function UserForm() {
         <div class="form-section">
           <h3>Interests</h3>
           <div class="interests-list">
-            <Each items={form.field("interests").value()}>
+            <Each items={interests.fields}>
               {(interest, index) => (
                 <div class="interest-item">
-                  <span>{interest()}</span>
+                  <span>{interests.item(interest()).value()}</span>
                   <button
                     type="button"
                     onClick={() => handleRemoveInterest(index())}
@@ -190,10 +193,7 @@ export default function UserForm() {
           </button>
           <button
             type="button"
-            onClick={() => {
-              form.reset();
-              form.field("interests").setValue(new ObservableList(["Hello"]));
-            }}
+            onClick={() => form.reset()}
             class="btn btn-secondary"
           >
             Reset
@@ -0,0 +1,209 @@
+import { describe, test, expect, vi } from "vitest";
+import { FieldArray } from "./array";
+import { Form } from "./form";
+import { min } from "./validator";
+
+describe("FieldArray", () => {
+  describe("constructor", () => {
+    test("should create a child field per item", () => {
+      const array = new FieldArray({ name: "tags", value: ["a", "b"] });
+
+      expect(array.length).toBe(2);
+      expect(array.at(0)?.value).toBe("a");
+      expect(array.at(1)?.name).toBe("tags[1]");
+      expect(array.value).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("operations", () => {
+    test("should append items", () => {
+      const array = new FieldArray<string, string>({ name: "tags", value: [] });
+
+      array.append("a", "b");
+
+      expect(array.value).toEqual(["a", "b"]);
+    });
+
+    test("should insert items, including at the end", () => {
+      const array = new FieldArray({ name: "tags", value: ["a", "c"] });
+
+      array.insert(1, "b");
+      array.insert(3, "d");
+
+      expect(array.value).toEqual(["a", "b", "c", "d"]);
+    });
+
+    test("should remove items", () => {
+      const array = new FieldArray({ name: "tags", value: ["a", "b", "c"] });
+
+      expect(array.remove(1)).toBe("b");
+      expect(array.value).toEqual(["a", "c"]);
+    });
+
+    test("should move items", () => {
+      const array = new FieldArray({ name: "tags", value: ["a", "b", "c"] });
+      const field = array.at(0)!;
+
+      array.move(0, 2);
+
+      expect(array.value).toEqual(["b", "c", "a"]);
+      expect(array.indexOf(field)).toBe(2);
+    });
+
+    test("should swap items", () => {
+      const array = new FieldArray({ name: "tags", value: ["a", "b", "c"] });
+
+      array.swap(2, 0);
+
+      expect(array.value).toEqual(["c", "b", "a"]);
+    });
+
+    test("should throw on invalid indexes", () => {
+      const array = new FieldArray({ name: "tags", value: ["a"] });
+
+      expect(() => array.move(0, 3)).toThrow(RangeError);
+      expect(() => array.swap(-1, 0)).toThrow(RangeError);
+    });
+
+    test("should report operations as list change events", () => {
+      const array = new FieldArray({ name: "tags", value: ["a", "b"] });
+      const events: string[] = [];
+      array.fields.on("change", (e) => events.push(e.type));
+
+      array.append("c");
+      array.remove(0);
+      array.insert(0, "x");
+
+      expect(events).toEqual(["push", "remove", "insert"]);
+    });
+
+    test("should keep value in sync with item changes", () => {
+      const array = new FieldArray({ name: "tags", value: ["a", "b"] });
+      const listener = vi.fn();
+      array.on("change", listener);
+
+      array.at(1)!.value = "c";
+
+      expect(array.value).toEqual(["a", "c"]);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    test("should stop tracking removed items", () => {
+      const array = new FieldArray({ name: "tags", value: ["a", "b"] });
+      const removed = array.at(0)!;
+
+      array.remove(0);
+      removed.value = "z";
+
+      expect(array.value).toEqual(["b"]);
+    });
+  });
+
+  describe("setValue/reset", () => {
+    test("should rebuild items when value is replaced", () => {
+      const array = new FieldArray({ name: "tags", value: ["a"] });
+
+      array.setValue(["x", "y"]);
+
+      expect(array.length).toBe(2);
+      expect(array.at(1)?.value).toBe("y");
+    });
+
+    test("should reset to default value", () => {
+      const array = new FieldArray({ name: "tags", value: ["a"] });
+
+      array.append("b");
+      expect(array.isDirty).toBe(true);
+
+      array.reset();
+      expect(array.value).toEqual(["a"]);
+      expect(array.isDirty).toBe(false);
+    });
+  });
+
+  describe("validation", () => {
+    test("should validate every item", async () => {
+      const array = new FieldArray<string, string>({
+        name: "tags",
+        value: ["abc", "a"],
+        item: { validations: [min(2)] },
+      });
+
+      expect(await array.validate()).toBe(false);
+      expect(array.isValid).toBe(false);
+      expect(array.at(0)?.isValid).toBe(true);
+      expect(array.at(1)?.errors).toHaveLength(1);
+    });
+  });
+});
+
+describe("Form.array", () => {
+  interface Order {
+    items: { qty: number }[];
+    tags: string[];
+  }
+
+  test("should convert a seeded field into a field array", () => {
+    const form = new Form<Order>({ defaultValues: { tags: ["a"] } });
+
+    const tags = form.array("tags");
+    tags.append("b");
+
+    expect(form.field("tags")).toBe(tags);
+    expect(form.array("tags")).toBe(tags);
+    expect(form.toJSON()).toEqual({ tags: ["a", "b"] });
+    expect(form.isDirty).toBe(true);
+  });
+
+  test("should create field arrays from item options", () => {
+    const form = new Form<Order>({
+      defaultValues: { tags: ["a"] },
+      fields: { tags: { item: { required: true } } },
+    });
+
+    expect(form.field("tags")).toBeInstanceOf(FieldArray);
+  });
+
+  test("should emit change events for structural changes", () => {
+    const form = new Form<Order>({ defaultValues: { tags: [] } });
+    const listener = vi.fn();
+    form.on("change:tags", listener);
+
+    form.array("tags").append("a");
+
+    expect(listener).toHaveBeenCalledWith({ prev: [], value: ["a"] });
+  });
+
+  test("should report per-index errors", async () => {
+    const form = new Form<Order>({
+      defaultValues: { tags: ["", "b", ""] },
+      fields: { tags: { item: { required: true } } },
+    });
+
+    expect(await form.validate()).toBe(false);
+    expect(Object.keys(form.validationErrors)).toEqual(["tags[0]", "tags[2]"]);
+
+    form.array("tags").remove(0);
+
+    expect(Object.keys(form.validationErrors)).toEqual(["tags[1]"]);
+  });
+
+  test("should emit validate events for items validated on their own", async () => {
+    const form = new Form<Order>({
+      fields: { tags: { item: { required: true } } },
+      defaultValues: { tags: ["a"] },
+    });
+    const listener = vi.fn();
+    form.on("validate:tags[0]", listener);
+
+    const item = form.array("tags").at(0)!;
+    item.value = "";
+    await item.validate();
+
+    expect(listener).toHaveBeenCalledWith({
+      status: "invalid",
+      errors: item.errors,
+    });
+    expect(form.isValid).toBe(false);
+  });
+});
@@ -0,0 +1,247 @@
+import {
+  type Equality,
+  isEqual,
+  type ListChangeEvent,
+  ObservableList,
+  type Subscription,
+} from "@kildevaeld/model";
+import { Field, type FieldOptions } from "./field.js";
+
+export type ArrayItem<T> = T extends readonly (infer E)[] ? E : never;
+
+export type FieldItemOptions<T> = Omit<
+  FieldOptions<string, T>,
+  "name" | "value" | "when" | "disabled" | "inactive"
+>;
+
+export interface FieldArrayOptions<K, T> extends FieldOptions<K, T[]> {
+  item?: FieldItemOptions<T>;
+}
+
+/**
+ * A field holding an array, with a child `Field` per item.
+ *
+ * The children live in an `ObservableList`, so every structural operation is
+ * reported as a `ListChangeEvent` on `fields`. Child names are assigned when
+ * the item is created and are not updated when items move; use `indexOf` to
+ * find the current position of a child.
+ */
+export class FieldArray<K, T> extends Field<K, T[]> {
+  #fields = new ObservableList<Field<string, T>>();
+  #item: FieldItemOptions<T>;
+  #itemEqual: Equality<T>;
+  #subscriptions = new Map<Field<string, T>, Subscription[]>();
+  #seq = 0;
+  #validating = false;
+  #replacing = false;
+
+  constructor(options: FieldArrayOptions<K, T>, equal: Equality<any> = isEqual) {
+    super(options, equal);
+    this.#item = options.item ?? {};
+    this.#itemEqual = equal;
+    this.#fields.on("change", this.#onListChange);
+    this.#fields.push(...(options.value ?? []).map((v) => this.#createItem(v)));
+  }
+
+  get fields(): ObservableList<Field<string, T>> {
+    return this.#fields;
+  }
+
+  get length() {
+    return this.#fields.length;
+  }
+
+  get isDirty() {
+    const defaults = this.defaultValue ?? [];
+    if (defaults.length !== this.#fields.length) return true;
+    return defaults.some(
+      (value, i) => !this.#itemEqual(value, this.#fields.at(i)?.value),
+    );
+  }
+
+  get isValid() {
+    if (!this.isActive) return true;
+    if (!super.isValid) return false;
+    for (const field of this.#fields) {
+      if (!field.isValid) return false;
+    }
+    return true;
+  }
+
+  at(index: number): Field<string, T> | undefined {
+    return this.#fields.at(index);
+  }
+
+  indexOf(field: Field<string, T>) {
+    let i = 0;
+    for (const item of this.#fields) {
+      if (item === field) return i;
+      i++;
+    }
+    return -1;
+  }
+
+  append(...values: T[]) {
+    this.#fields.push(...values.map((v) => this.#createItem(v)));
+  }
+
+  insert(index: number, value: T) {
+    this.#insertField(index, this.#createItem(value));
+  }
+
+  remove(index: number): T | undefined {
+    return this.#fields.remove(index)?.value;
+  }
+
+  move(from: number, to: number) {
+    if (from === to) return;
+    this.#assertIndex(from);
+    this.#assertIndex(to);
+    this.#insertField(to, this.#fields.remove(from));
+  }
+
+  swap(a: number, b: number) {
+    if (a === b) return;
+    this.#assertIndex(a);
+    this.#assertIndex(b);
+    const [i, j] = a < b ? [a, b] : [b, a];
+    const last = this.#fields.remove(j);
+    const first = this.#fields.remove(i);
+    this.#insertField(i, last);
+    this.#insertField(j, first);
+  }
+
+  reset() {
+    // Items are recreated even when the values match, so they drop their
+    // errors and get the defaults as their own default values
+    if (this.#isCurrent(this.defaultValue)) {
+      this.#replace(this.defaultValue ?? []);
+    }
+    return super.reset();
+  }
+
+  setValue(value: T[] | undefined) {
+    if (this.#isCurrent(value)) return false;
+    this.#replace(value ?? []);
+    return super.setValue(value);
+  }
+
+  async validate(trigger = true) {
+    if (!this.isActive) return super.validate(trigger);
+
+    this.#validating = true;
+    let valid = true;
+    try {
+      for (const field of this.#fields) {
+        if (!(await field.validate(trigger))) {
+          valid = false;
+        }
+      }
+    } finally {
+      this.#validating = false;
+    }
+
+    return (await super.validate(trigger)) && valid;
+  }
+
+  #isCurrent(value: T[] | undefined) {
+    const current = this.value;
+    if (current === value) return true;
+    if (!current || !value || current.length !== value.length) return false;
+    return value.every((v, i) => this.#itemEqual(v, current[i]));
+  }
+
+  #replace(values: T[]) {
+    this.#replacing = true;
+    try {
+      while (this.#fields.length) {
+        this.#fields.pop();
+      }
+      if (values.length) {
+        this.#fields.push(...values.map((v) => this.#createItem(v)));
+      }
+    } finally {
+      this.#replacing = false;
+    }
+  }
+
+  #insertField(index: number, field: Field<string, T>) {
+    if (index === this.#fields.length) {
+      this.#fields.push(field);
+    } else {
+      this.#fields.insert(index, field);
+    }
+  }
+
+  #assertIndex(index: number) {
+    if (index < 0 || index >= this.#fields.length) {
+      throw new RangeError("Invalid index");
+    }
+  }
+
+  #createItem(value: T | undefined) {
+    return new Field<string, T>(
+      {
+        ...this.#item,
+        name: `${String(this.name)}[${this.#seq++}]`,
+        value,
+      },
+      this.#itemEqual,
+    );
+  }
+
+  #attach(field: Field<string, T>) {
+    this.#subscriptions.set(field, [
+      field.on("change", this.#sync),
+      field.on("validate", this.#onItemValidate),
+      // Interacting with an item counts as interacting with the array
+      field.on("touch", (e) => e.touched && this.touch()),
+    ]);
+  }
+
+  #detach(field: Field<string, T> | undefined) {
+    if (!field) return;
+    this.#subscriptions.get(field)?.forEach((unsubscribe) => unsubscribe());
+    this.#subscriptions.delete(field);
+  }
+
+  #onListChange = (event: ListChangeEvent<Field<string, T>>) => {
+    switch (event.type) {
+      case "push":
+        event.items.forEach((field) => this.#attach(field));
+        break;
+      case "insert":
+        this.#attach(event.item);
+        break;
+      case "set":
+        this.#detach(event.prev);
+        this.#attach(event.item);
+        break;
+      case "pop":
+      case "remove":
+        this.#detach(event.item);
+        break;
+    }
+
+    this.#sync();
+  };
+
+  // List changes deferred by a batch arrive after the items are in place
+  #sync = () => {
+    if (this.#replacing) return;
+    const values = Array.from(this.#fields, (field) => field.value as T);
+    if (this.#isCurrent(values)) return;
+    super.setValue(values);
+  };
+
+  // Lets the form pick up item errors when a single item is validated
+  #onItemValidate = () => {
+    if (this.#validating) return;
+    this.emit(
+      "validate",
+      super.isValid
+        ? { status: "valid" }
+        : { status: "invalid", errors: this.errors },
+    );
+  };
+}
@@ -0,0 +1,129 @@
+import { describe, test, expect } from "vitest";
+import { Field } from "../field";
+import { max, min, pattern, step } from "../validator";
+import {
+  constraintsFromElement,
+  reflectConstraints,
+  setCustomValidity,
+} from "./constraints";
+import { TextInputController } from "./controller";
+
+function input(attrs: Record<string, string>) {
+  const el = document.createElement("input");
+  for (const [key, value] of Object.entries(attrs)) {
+    el.setAttribute(key, value);
+  }
+  return el;
+}
+
+async function errors(el: HTMLElement, value: unknown) {
+  const { required, validations } = constraintsFromElement(el);
+  const field = new Field<string, unknown>({
+    name: "test",
+    value,
+    required,
+    validations,
+  });
+  await field.validate();
+  return field.errors.map((e) => e.message);
+}
+
+describe("constraintsFromElement", () => {
+  test("should read required", () => {
+    expect(constraintsFromElement(input({ required: "" })).required).toBe(
+      true,
+    );
+  });
+
+  test("should read minlength and maxlength", async () => {
+    const el = input({ minlength: "2", maxlength: "4" });
+    expect(await errors(el, "a")).toHaveLength(1);
+    expect(await errors(el, "abc")).toHaveLength(0);
+    expect(await errors(el, "abcde")).toHaveLength(1);
+  });
+
+  test("should read min, max and step of numeric inputs", async () => {
+    const el = input({ type: "number", min: "1", max: "9", step: "2" });
+    expect(await errors(el, 5)).toHaveLength(0);
+    expect(await errors(el, 4)).toEqual(["Value must be a multiple of 2"]);
+    expect(await errors(el, 11)).toEqual(["Value must be at most 9"]);
+  });
+
+  test("should anchor patterns", async () => {
+    const el = input({ pattern: "[a-z]+" });
+    expect(await errors(el, "abc")).toHaveLength(0);
+    expect(await errors(el, "abc1")).toHaveLength(1);
+  });
+
+  test("should validate e-mail and URL inputs", async () => {
+    expect(await errors(input({ type: "email" }), "john")).toHaveLength(1);
+    expect(await errors(input({ type: "url" }), "john")).toHaveLength(1);
+  });
+});
+
+describe("reflectConstraints", () => {
+  test("should set attributes of text inputs", () => {
+    const el = input({});
+    reflectConstraints(
+      el,
+      new Field<string, string>({
+        name: "test",
+        required: true,
+        validations: [min(2), max(4), pattern(/^[a-z]+$/)],
+      }),
+    );
+
+    expect(el.required).toBe(true);
+    expect(el.minLength).toBe(2);
+    expect(el.maxLength).toBe(4);
+    expect(el.pattern).toBe("[a-z]+");
+  });
+
+  test("should set attributes of numeric inputs", () => {
+    const el = input({ type: "number" });
+    reflectConstraints(
+      el,
+      new Field<string, number>({
+        name: "test",
+        validations: [min(1), max(9), step(2)],
+      }),
+    );
+
+    expect(el.min).toBe("1");
+    expect(el.max).toBe("9");
+    expect(el.step).toBe("2");
+  });
+
+  test("should keep unanchored patterns partial", () => {
+    const el = input({});
+    reflectConstraints(
+      el,
+      new Field<string, string>({ name: "test", validations: [pattern("a")] }),
+    );
+
+    expect(el.pattern).toBe(".*(?:a).*");
+  });
+});
+
+describe("setCustomValidity", () => {
+  test("should report the first error", async () => {
+    const el = input({});
+    const field = new Field<string, string>({ name: "test", required: true });
+    const controller = new TextInputController(el, { field });
+    controller.enable();
+
+    await field.validate();
+    expect(el.validity.customError).toBe(true);
+    expect(el.validationMessage).toBe("Required");
+
+    field.setValue("abc");
+    await field.validate();
+    expect(el.validity.customError).toBe(false);
+  });
+
+  test("should clear the custom error", () => {
+    const el = input({});
+    setCustomValidity(el, []);
+    expect(el.validity.valid).toBe(true);
+  });
+});
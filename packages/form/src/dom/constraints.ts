@@ -0,0 +1,154 @@
+import type { Field } from "../field.js";
+import {
+  AcceptValidation,
+  MaxFilesValidation,
+  MaxValidation,
+  MinValidation,
+  PatternValidation,
+  StepValidation,
+  type Validation,
+  type ValidationError,
+  accept,
+  email,
+  max,
+  min,
+  pattern,
+  step,
+  url,
+} from "../validator.js";
+
+type ConstraintElement =
+  | HTMLInputElement
+  | HTMLTextAreaElement
+  | HTMLSelectElement;
+
+// Input types whose `min`, `max` and `step` are numbers
+const NUMERIC_TYPES = ["number", "range"];
+
+function isConstraintElement(el: HTMLElement): el is ConstraintElement {
+  return (
+    el instanceof HTMLInputElement ||
+    el instanceof HTMLTextAreaElement ||
+    el instanceof HTMLSelectElement
+  );
+}
+
+function isNumeric(el: HTMLElement): el is HTMLInputElement {
+  return el instanceof HTMLInputElement && NUMERIC_TYPES.includes(el.type);
+}
+
+function numberAttribute(el: HTMLElement, name: string) {
+  const attr = el.getAttribute(name);
+  if (attr == null || attr.trim() === "") return undefined;
+  const value = Number(attr);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Validations equivalent to the constraint attributes of `el`: `minlength`,
+ * `maxlength`, `min`, `max`, `step`, `pattern`, `accept` and `type=email|url`
+ */
+export function constraintsFromElement(el: HTMLElement): {
+  required: boolean;
+  validations: Validation<any>[];
+} {
+  const validations: Validation<any>[] = [];
+  if (!isConstraintElement(el)) {
+    return { required: false, validations };
+  }
+
+  const minLength = numberAttribute(el, "minlength");
+  if (minLength !== undefined) validations.push(min(minLength));
+  const maxLength = numberAttribute(el, "maxlength");
+  if (maxLength !== undefined) validations.push(max(maxLength));
+
+  if (isNumeric(el)) {
+    const minValue = numberAttribute(el, "min");
+    if (minValue !== undefined) {
+      validations.push(min(minValue, `Value must be at least ${minValue}`));
+    }
+    const maxValue = numberAttribute(el, "max");
+    if (maxValue !== undefined) {
+      validations.push(max(maxValue, `Value must be at most ${maxValue}`));
+    }
+    const stepValue = numberAttribute(el, "step");
+    if (stepValue !== undefined && stepValue > 0) {
+      validations.push(step(stepValue, minValue));
+    }
+  }
+
+  if (el instanceof HTMLInputElement) {
+    // Patterns must match the whole value
+    if (el.pattern) {
+      validations.push(pattern(new RegExp(`^(?:${el.pattern})$`)));
+    }
+    if (el.type === "email") validations.push(email());
+    if (el.type === "url") validations.push(url());
+    if (el.type === "file" && el.accept) validations.push(accept(el.accept));
+  }
+
+  return { required: el.required, validations };
+}
+
+// The `pattern` attribute equivalent of a regular expression, if any
+function toPatternAttribute(value: RegExp | string) {
+  const regex = typeof value === "string" ? new RegExp(value) : value;
+  if (regex.flags.replace(/[uv]/g, "")) return undefined;
+
+  const source = regex.source;
+  if (
+    source.startsWith("^") &&
+    source.endsWith("$") &&
+    !source.endsWith("\\$")
+  ) {
+    return source.slice(1, -1);
+  }
+  return `.*(?:${source}).*`;
+}
+
+/**
+ * Sets the constraint attributes of `el` from the field's validations, so the
+ * browser's constraint validation agrees with the field
+ */
+export function reflectConstraints(el: HTMLElement, field: Field<string, any>) {
+  if (!isConstraintElement(el)) return;
+
+  if (field.isRequired) el.required = true;
+
+  for (const validation of field.validations) {
+    if (validation instanceof MinValidation) {
+      if (isNumeric(el)) {
+        el.min = String(validation.min);
+      } else if (!(el instanceof HTMLSelectElement)) {
+        el.minLength = validation.min;
+      }
+    } else if (validation instanceof MaxValidation) {
+      if (isNumeric(el)) {
+        el.max = String(validation.max);
+      } else if (!(el instanceof HTMLSelectElement)) {
+        el.maxLength = validation.max;
+      }
+    } else if (el instanceof HTMLInputElement) {
+      if (validation instanceof StepValidation) {
+        el.step = String(validation.step);
+      } else if (validation instanceof PatternValidation) {
+        const attr = toPatternAttribute(validation.pattern);
+        if (attr !== undefined) el.pattern = attr;
+      } else if (validation instanceof AcceptValidation) {
+        el.accept = validation.types.join(",");
+      } else if (validation instanceof MaxFilesValidation) {
+        el.multiple = validation.count > 1;
+      }
+    }
+  }
+}
+
+/**
+ * Reports the first of `errors` through the constraint validation API of
+ * `el`, or clears the custom error when there are none
+ */
+export function setCustomValidity(el: HTMLElement, errors: ValidationError[]) {
+  if ("setCustomValidity" in el && typeof el.setCustomValidity === "function") {
+    el.setCustomValidity(errors[0]?.message ?? "");
+  }
+}
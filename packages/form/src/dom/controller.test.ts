@@ -6,7 +6,15 @@ import {
   NumberInputController,
   DateInputController,
   SelectController,
+  RadioGroupController,
+  CheckboxGroupController,
+  FileInputController,
+  ElementController,
 } from "./controller";
+import { registerControl } from "./protocol";
+import { maxSize } from "../validator";
+import { mask, numberFormat } from "../format";
+import { ObservableList } from "@kildevaeld/model";
 
 describe("InputController", () => {
   let input: HTMLInputElement;
@@ -149,6 +157,79 @@ describe("InputController", () => {
     });
   });
 
+  describe("focus handling", () => {
+    test("should mark the field as focused and visited on focus", () => {
+      const controller = new TextInputController(input, { field });
+      controller.enable();
+
+      input.dispatchEvent(new Event("focus"));
+
+      expect(field.isFocused).toBe(true);
+      expect(field.isVisited).toBe(true);
+      expect(field.isTouched).toBe(false);
+    });
+
+    test("should mark the field as touched on blur", () => {
+      const controller = new TextInputController(input, { field });
+      controller.enable();
+
+      input.dispatchEvent(new Event("focus"));
+      input.dispatchEvent(new Event("blur"));
+
+      expect(field.isFocused).toBe(false);
+      expect(field.isTouched).toBe(true);
+    });
+
+    test("should stop tracking focus when disabled", () => {
+      const controller = new TextInputController(input, { field });
+      controller.enable();
+      controller.disable();
+
+      input.dispatchEvent(new Event("focus"));
+
+      expect(field.isFocused).toBe(false);
+    });
+  });
+
+  describe("inactive fields", () => {
+    test("should disable the input while the field is inactive", () => {
+      const controller = new TextInputController(input, { field });
+      controller.enable();
+
+      field.setHidden(true);
+      expect(input.disabled).toBe(true);
+
+      field.setHidden(false);
+      expect(input.disabled).toBe(false);
+    });
+
+    test("should disable the input of an inactive field right away", () => {
+      field.setDisabled(true);
+      new TextInputController(input, { field });
+
+      expect(input.disabled).toBe(true);
+    });
+  });
+
+  describe("read-only fields", () => {
+    test("should make the input read-only and ignore input", () => {
+      const field = new Field<string, string>({
+        name: "total",
+        value: "10",
+        readOnly: true,
+      });
+      const controller = new TextInputController(input, { field });
+      controller.enable();
+      expect(input.readOnly).toBe(true);
+
+      input.value = "20";
+      input.dispatchEvent(new Event("input"));
+
+      expect(field.value).toBe("10");
+      expect(input.value).toBe("10");
+    });
+  });
+
   describe("field change handling", () => {
     test("should update input value when field changes", () => {
       const controller = new TextInputController(input, { field });
@@ -399,3 +480,581 @@ describe("Controller debouncing", () => {
     expect(validateSpy).toHaveBeenCalledTimes(3);
   });
 });
+
+function inputs(type: string, values: string[]) {
+  return values.map((value) => {
+    const el = document.createElement("input");
+    el.type = type;
+    el.name = "group";
+    el.value = value;
+    document.body.append(el);
+    return el;
+  });
+}
+
+describe("RadioGroupController", () => {
+  test("should check the radio matching the field value", () => {
+    const field = new Field<string, string>({ name: "plan", value: "pro" });
+    const [free, pro] = inputs("radio", ["free", "pro"]);
+    new RadioGroupController([free, pro], { field });
+
+    expect(free.checked).toBe(false);
+    expect(pro.checked).toBe(true);
+  });
+
+  test("should update the field when a radio is checked", () => {
+    const field = new Field<string, string>({ name: "plan" });
+    const [free, pro] = inputs("radio", ["free", "pro"]);
+    const controller = new RadioGroupController([free, pro], { field });
+    controller.enable();
+
+    free.checked = true;
+    free.dispatchEvent(new Event("change"));
+    expect(field.value).toBe("free");
+
+    field.setValue("pro");
+    expect(pro.checked).toBe(true);
+    expect(free.checked).toBe(false);
+  });
+
+  test("should bind radios added later", () => {
+    const field = new Field<string, string>({ name: "plan", value: "pro" });
+    const [free, pro] = inputs("radio", ["free", "pro"]);
+    const controller = new RadioGroupController([free], { field });
+    controller.enable();
+    controller.add(pro);
+
+    expect(pro.checked).toBe(true);
+    expect(controller.remove(pro)).toBe(1);
+  });
+
+  test("should not leave the field when moving between radios", () => {
+    const field = new Field<string, string>({ name: "plan" });
+    const [free, pro] = inputs("radio", ["free", "pro"]);
+    const controller = new RadioGroupController([free, pro], { field });
+    controller.enable();
+
+    free.dispatchEvent(new FocusEvent("focus"));
+    free.dispatchEvent(new FocusEvent("blur", { relatedTarget: pro }));
+    expect(field.isTouched).toBe(false);
+
+    pro.dispatchEvent(new FocusEvent("blur"));
+    expect(field.isTouched).toBe(true);
+  });
+
+  test("should report failing validations as field errors", async () => {
+    const field = new Field<string, string>({
+      name: "plan",
+      validations: [
+        {
+          validate: async () => {
+            throw new Error("boom");
+          },
+        },
+      ],
+    });
+    const [free, pro] = inputs("radio", ["free", "pro"]);
+    const controller = new RadioGroupController([free, pro], { field });
+    controller.enable();
+
+    free.checked = true;
+    free.dispatchEvent(new Event("change"));
+
+    await vi.waitFor(() =>
+      expect(field.errors.map((e) => e.message)).toEqual(["boom"]),
+    );
+  });
+});
+
+describe("CheckboxGroupController", () => {
+  test("should check the boxes in the field value", () => {
+    const field = new Field<string, string[]>({ name: "tags", value: ["b"] });
+    const [a, b] = inputs("checkbox", ["a", "b"]);
+    new CheckboxGroupController([a, b], { field });
+
+    expect(a.checked).toBe(false);
+    expect(b.checked).toBe(true);
+  });
+
+  test("should update an array value", () => {
+    const field = new Field<string, string[]>({
+      name: "tags",
+      value: ["x"],
+    });
+    const [a, b] = inputs("checkbox", ["a", "b"]);
+    const controller = new CheckboxGroupController([a, b], { field });
+    controller.enable();
+
+    b.checked = true;
+    b.dispatchEvent(new Event("change"));
+    expect(field.value).toEqual(["b", "x"]);
+
+    a.checked = true;
+    a.dispatchEvent(new Event("change"));
+    expect(field.value).toEqual(["a", "b", "x"]);
+  });
+
+  test("should update an ObservableList in place", () => {
+    const list = new ObservableList(["a"]);
+    const field = new Field<string, ObservableList<string>>({
+      name: "tags",
+      value: list,
+    });
+    const [a, b] = inputs("checkbox", ["a", "b"]);
+    const controller = new CheckboxGroupController([a, b], { field });
+    controller.enable();
+
+    b.checked = true;
+    b.dispatchEvent(new Event("change"));
+    a.checked = false;
+    a.dispatchEvent(new Event("change"));
+
+    expect(field.value).toBe(list);
+    expect(list.toJSON()).toEqual(["b"]);
+
+    list.push("a");
+    expect(a.checked).toBe(true);
+  });
+});
+
+describe("SelectController multiple", () => {
+  test("should keep the selected options in sync", () => {
+    const select = document.createElement("select");
+    select.multiple = true;
+    for (const value of ["a", "b", "c"]) {
+      const option = document.createElement("option");
+      option.value = value;
+      select.append(option);
+    }
+    const field = new Field<string, string[]>({ name: "tags", value: ["b"] });
+    const controller = new SelectController(select, { field });
+    controller.enable();
+
+    expect(select.options[1].selected).toBe(true);
+
+    select.options[2].selected = true;
+    select.dispatchEvent(new Event("change"));
+    expect(field.value).toEqual(["b", "c"]);
+
+    field.setValue(["a"]);
+    expect(Array.from(select.selectedOptions, (o) => o.value)).toEqual(["a"]);
+  });
+});
+
+describe("FileInputController", () => {
+  let input: HTMLInputElement;
+  const file = new File(["abc"], "a.txt", { type: "text/plain" });
+
+  function select(...files: File[]) {
+    Object.defineProperty(input, "files", {
+      value: files,
+      configurable: true,
+    });
+    input.dispatchEvent(new Event("change"));
+  }
+
+  beforeEach(() => {
+    input = document.createElement("input");
+    input.type = "file";
+  });
+
+  test("should store the selected files", () => {
+    const field = new Field<string, File[]>({ name: "files" });
+    const controller = new FileInputController(input, { field });
+    controller.enable();
+
+    select(file);
+
+    expect(field.value).toEqual([file]);
+  });
+
+  test("should not write the value back", () => {
+    const field = new Field<string, File[]>({ name: "files" });
+    const controller = new FileInputController(input, { field });
+    controller.enable();
+
+    expect(() => field.setValue([file])).not.toThrow();
+    expect(input.value).toBe("");
+  });
+
+  test("should upload valid files and report progress", async () => {
+    const field = new Field<string, File[]>({ name: "files" });
+    const upload = vi.fn(async (_file: File, { progress }) => {
+      progress(1);
+    });
+    const controller = new FileInputController(input, { field, upload });
+    controller.enable();
+
+    select(file);
+
+    await vi.waitFor(() =>
+      expect(field.progress).toEqual([
+        { file, loaded: 3, total: 3, status: "done", error: undefined },
+      ]),
+    );
+    expect(upload).toHaveBeenCalledWith(file, expect.anything());
+  });
+
+  test("should not upload invalid files", async () => {
+    const field = new Field<string, File[]>({
+      name: "files",
+      validations: [maxSize(1)],
+    });
+    const upload = vi.fn(async () => {});
+    const controller = new FileInputController(input, { field, upload });
+    controller.enable();
+
+    select(file);
+
+    await vi.waitFor(() => expect(field.isValid).toBe(false));
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  test("should report failed uploads as field errors", async () => {
+    const field = new Field<string, File[]>({ name: "files" });
+    const upload = async () => {
+      throw new Error("Server unavailable");
+    };
+    const controller = new FileInputController(input, { field, upload });
+    controller.enable();
+
+    select(file);
+
+    await vi.waitFor(() =>
+      expect(field.errors.map((e) => e.message)).toEqual([
+        "a.txt: Server unavailable",
+      ]),
+    );
+    expect(field.progress[0].status).toBe("error");
+  });
+
+  test("should report failing validations as field errors", async () => {
+    const field = new Field<string, File[]>({
+      name: "files",
+      validations: [
+        {
+          validate: async () => {
+            throw new Error("Scanner unavailable");
+          },
+        },
+      ],
+    });
+    const upload = vi.fn(async () => {});
+    const controller = new FileInputController(input, { field, upload });
+    controller.enable();
+
+    select(file);
+
+    await vi.waitFor(() =>
+      expect(field.errors.map((e) => e.message)).toEqual([
+        "Scanner unavailable",
+      ]),
+    );
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  test("should clear failures when other files are selected", async () => {
+    const validate = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Scanner unavailable"))
+      .mockResolvedValue(undefined);
+    const field = new Field<string, File[]>({
+      name: "files",
+      validations: [{ validate }],
+    });
+    const upload = vi.fn(async () => {});
+    const controller = new FileInputController(input, {
+      field,
+      upload,
+      validateMode: "blur",
+    });
+    controller.enable();
+
+    select(file);
+    await vi.waitFor(() => expect(field.isValid).toBe(false));
+
+    select(new File(["de"], "b.txt", { type: "text/plain" }));
+    expect(field.errors).toHaveLength(0);
+    await vi.waitFor(() => expect(upload).toHaveBeenCalled());
+    expect(field.isValid).toBe(true);
+  });
+
+  describe("previews", () => {
+    let urls = 0;
+
+    beforeEach(() => {
+      urls = 0;
+      vi.spyOn(URL, "createObjectURL").mockImplementation(
+        () => `blob:${++urls}`,
+      );
+      vi.spyOn(URL, "revokeObjectURL").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    test("should create object URLs for the selected files", () => {
+      const field = new Field<string, File[]>({ name: "files" });
+      const onPreviews = vi.fn();
+      const controller = new FileInputController(input, { field, onPreviews });
+      controller.enable();
+
+      select(file);
+
+      expect(controller.previews).toEqual([{ file, url: "blob:1" }]);
+      expect(onPreviews).toHaveBeenLastCalledWith([{ file, url: "blob:1" }]);
+      expect(URL.createObjectURL).toHaveBeenCalledTimes(1);
+    });
+
+    test("should revoke the URLs of files which are no longer selected", () => {
+      const other = new File(["de"], "b.txt", { type: "text/plain" });
+      const field = new Field<string, File[]>({ name: "files" });
+      const controller = new FileInputController(input, { field });
+      controller.enable();
+
+      select(file);
+      controller.previews;
+      select(other);
+
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:1");
+      expect(controller.previews).toEqual([{ file: other, url: "blob:2" }]);
+
+      field.reset();
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:2");
+    });
+
+    test("should revoke the URLs when disabled", () => {
+      const field = new Field<string, File[]>({ name: "files" });
+      const controller = new FileInputController(input, { field });
+      controller.enable();
+
+      select(file);
+      controller.previews;
+      controller.disable();
+
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:1");
+    });
+  });
+});
+
+describe("InputController parse/format", () => {
+  let input: HTMLInputElement;
+
+  beforeEach(() => {
+    input = document.createElement("input");
+    document.body.append(input);
+  });
+
+  afterEach(() => {
+    input.remove();
+  });
+
+  test("should format the initial value", () => {
+    const field = new Field<string, number>({
+      name: "amount",
+      value: 1234,
+      ...numberFormat("en-US"),
+    });
+    new InputController(input, { field });
+
+    expect(input.value).toBe("1,234");
+  });
+
+  test("should keep the value typed", () => {
+    const field = new Field<string, number>({
+      name: "amount",
+      ...numberFormat("en-US"),
+    });
+    const controller = new InputController(input, { field });
+    controller.enable();
+
+    input.value = "1234";
+    input.dispatchEvent(new Event("input"));
+    expect(field.value).toBe(1234);
+
+    input.value = "";
+    input.dispatchEvent(new Event("input"));
+    expect(field.value).toBeUndefined();
+  });
+
+  test("should prefer the parse/format of the controller", () => {
+    const field = new Field<string, string>({ name: "phone" });
+    const controller = new InputController(input, {
+      field,
+      ...mask("(###) ###-####"),
+    });
+    controller.enable();
+
+    input.value = "5551234";
+    input.dispatchEvent(new Event("input"));
+
+    expect(field.value).toBe("5551234");
+    expect(input.value).toBe("(555) 123-4");
+  });
+
+  test("should keep the caret position while reformatting", () => {
+    const field = new Field<string, number>({
+      name: "amount",
+      ...numberFormat("en-US"),
+    });
+    const controller = new InputController(input, { field });
+    controller.enable();
+    input.focus();
+
+    // Typing "7" after the "1" of "123,456"
+    input.value = "1723,456";
+    input.setSelectionRange(2, 2);
+    input.dispatchEvent(new Event("input"));
+
+    expect(input.value).toBe("1,723,456");
+    expect(input.selectionStart).toBe(3);
+  });
+
+  test("should wait for blur when reformatting would drop input", () => {
+    const field = new Field<string, number>({
+      name: "amount",
+      ...numberFormat("en-US"),
+    });
+    const controller = new InputController(input, { field });
+    controller.enable();
+
+    input.value = "1234.";
+    input.dispatchEvent(new Event("input"));
+    expect(input.value).toBe("1234.");
+    expect(field.value).toBe(1234);
+
+    input.dispatchEvent(new Event("blur"));
+    expect(input.value).toBe("1,234");
+  });
+});
+
+describe("ElementController", () => {
+  class RatingInput extends HTMLElement {
+    static formControl = { property: "rating", event: "rating-change" };
+    rating = 0;
+  }
+  customElements.define("rating-input", RatingInput);
+
+  class ColorInput extends HTMLElement {
+    static formAssociated = true;
+    value = "";
+  }
+  customElements.define("color-input", ColorInput);
+
+  test("should bind contenteditable regions to their text", () => {
+    const el = document.createElement("div");
+    el.setAttribute("contenteditable", "");
+    const field = new Field<string, string>({ name: "bio", value: "Hello" });
+    const controller = new ElementController(el, { field });
+    controller.enable();
+    expect(el.textContent).toBe("Hello");
+
+    el.textContent = "Hello, world";
+    el.dispatchEvent(new Event("input"));
+    expect(field.value).toBe("Hello, world");
+
+    field.setValue("Bye");
+    expect(el.textContent).toBe("Bye");
+  });
+
+  test("should report failing validations as field errors", async () => {
+    const el = document.createElement("div");
+    el.setAttribute("contenteditable", "");
+    const field = new Field<string, string>({
+      name: "bio",
+      validations: [
+        {
+          validate: async () => {
+            throw new Error("boom");
+          },
+        },
+      ],
+    });
+    const controller = new ElementController(el, { field });
+    controller.enable();
+
+    el.textContent = "Hello";
+    el.dispatchEvent(new Event("input"));
+
+    await vi.waitFor(() =>
+      expect(field.errors.map((e) => e.message)).toEqual(["boom"]),
+    );
+  });
+
+  test("should use the protocol declared by the component", () => {
+    const el = new RatingInput();
+    const field = new Field<string, number>({ name: "rating", value: 3 });
+    const controller = new ElementController(el, { field });
+    controller.enable();
+    expect(el.rating).toBe(3);
+
+    el.rating = 5;
+    el.dispatchEvent(new Event("input"));
+    expect(field.value).toBe(3);
+
+    el.dispatchEvent(new CustomEvent("rating-change"));
+    expect(field.value).toBe(5);
+  });
+
+  test("should bind form-associated elements to their value", () => {
+    const el = new ColorInput();
+    const field = new Field<string, string>({ name: "color", value: "red" });
+    const controller = new ElementController(el, { field });
+    controller.enable();
+    expect(el.value).toBe("red");
+
+    el.value = "blue";
+    el.dispatchEvent(new Event("change"));
+    expect(field.value).toBe("blue");
+  });
+
+  test("should use registered protocols", () => {
+    registerControl("ds-toggle", {
+      event: "ds-toggle",
+      get: (_, e) => (e as CustomEvent<{ on: boolean }>).detail.on,
+      set: (el, value) => el.toggleAttribute("on", !!value),
+    });
+    const el = document.createElement("ds-toggle");
+    const field = new Field<string, boolean>({ name: "on", value: true });
+    const controller = new ElementController(el, { field });
+    controller.enable();
+    expect(el.hasAttribute("on")).toBe(true);
+
+    el.dispatchEvent(new CustomEvent("ds-toggle", { detail: { on: false } }));
+    expect(field.value).toBe(false);
+  });
+
+  test("should stay focused while focus moves within the element", () => {
+    const el = document.createElement("div");
+    el.setAttribute("contenteditable", "");
+    const inner = document.createElement("span");
+    el.append(inner);
+    const field = new Field<string, string>({ name: "bio" });
+    const controller = new ElementController(el, { field });
+    controller.enable();
+
+    el.dispatchEvent(new FocusEvent("focusin"));
+    expect(field.isFocused).toBe(true);
+
+    el.dispatchEvent(new FocusEvent("focusout", { relatedTarget: inner }));
+    expect(field.isFocused).toBe(true);
+
+    el.dispatchEvent(new FocusEvent("focusout"));
+    expect(field.isFocused).toBe(false);
+    expect(field.isTouched).toBe(true);
+  });
+
+  test("should stop listening when disabled", () => {
+    const el = document.createElement("div");
+    el.setAttribute("contenteditable", "");
+    const field = new Field<string, string>({ name: "bio", value: "" });
+    const controller = new ElementController(el, { field });
+    controller.enable();
+    controller.disable();
+
+    el.textContent = "Hello";
+    el.dispatchEvent(new Event("input"));
+    expect(field.value).toBe("");
+  });
+});
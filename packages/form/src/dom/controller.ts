@@ -1,10 +1,30 @@
+import { type IObservableList, ObservableList } from "@kildevaeld/model";
 import { Field, FieldOptions } from "../field";
+import { ValidationError } from "../validator.js";
 import { Form } from "../form";
-import { debounced, getValue, setValue } from "./util";
+import { reflectConstraints, setCustomValidity } from "./constraints.js";
+import {
+  type ControlProtocol,
+  controlProtocol,
+  protocolEvents,
+  readControl,
+  writeControl,
+} from "./protocol.js";
+import {
+  firstInDocument,
+  getValue,
+  replaceText,
+  setDisabled,
+  setValue,
+  significant,
+  toStrings,
+} from "./util";
 
 export type ValidateMode = "change" | "blur" | "submit";
 
 export interface Controller {
+  readonly element: HTMLElement;
+  readonly field: Field<string, any>;
   enable(): void;
   disable(): void;
 }
@@ -12,6 +32,41 @@ export interface Controller {
 export interface ControllerOptions<T> {
   field: Field<string, T>;
   validateMode?: ValidateMode;
+  /**
+   * Overrides the `parse` option of the field
+   */
+  parse?: (text: string) => T | undefined;
+  /**
+   * Overrides the `format` option of the field
+   */
+  format?: (value: T | undefined) => string;
+}
+
+// Source of the errors of validations which failed to run
+const FAILURE = Symbol("failure");
+
+// Validates `field` from an event listener, which cannot report failures.
+// Debouncing and cancellation of slow validations is handled by the field.
+function validateField(field: Field<string, any>) {
+  field.setExternalErrors(FAILURE, []);
+  field.validate().catch((e) => reportFailure(field, e));
+}
+
+// Records a validation which failed to run as an error on `field`
+function reportFailure(field: Field<string, any>, e: unknown) {
+  const message = e instanceof Error ? e.message : String(e);
+  field.setExternalErrors(FAILURE, [new ValidationError(message)]);
+}
+
+type TextControl = HTMLInputElement | HTMLTextAreaElement;
+
+// Controls whose value is free text, which parse/format applies to
+function isTextControl(el: HTMLElement): el is TextControl {
+  if (el instanceof HTMLTextAreaElement) return true;
+  return (
+    el instanceof HTMLInputElement &&
+    !["checkbox", "radio", "file"].includes(el.type)
+  );
 }
 
 export class InputController<E extends HTMLElement, T> {
@@ -19,7 +74,10 @@ export class InputController<E extends HTMLElement, T> {
   #field: Field<string, T>;
   #validationMode: ValidateMode;
   #event: "input" | "change";
-  #validateField: () => void;
+  // Set for text controls, which parse/format applies to
+  #text: TextControl | undefined;
+  #parse: ((text: string) => T | undefined) | undefined;
+  #format: ((value: T | undefined) => string) | undefined;
   constructor(
     el: E,
     options: ControllerOptions<T> & { event?: "input" | "change" },
@@ -28,26 +86,49 @@ export class InputController<E extends HTMLElement, T> {
     this.#field = options.field;
     this.#validationMode = options.validateMode ?? "change";
     this.#event = options.event ?? "input";
-    // this.#validateField = debounced(() => {
-    //   this.#field.validate();
-    // }, 200);
-    this.#validateField = () => {
-      return this.#field.validate();
-    };
 
-    setValue(el, options.field.value);
+    if (isTextControl(el)) {
+      this.#text = el;
+      this.#parse = options.parse ?? options.field.parse;
+      this.#format = options.format ?? options.field.format;
+      if (options.field.isReadOnly) el.readOnly = true;
+    }
+
+    this.#write(options.field.value);
+    reflectConstraints(el, options.field);
+    // Controls start out as authored, unless the field is inactive
+    if (!options.field.isActive) setDisabled(el, true);
+  }
+
+  get element() {
+    return this.#el;
+  }
+
+  get field() {
+    return this.#field;
   }
 
   enable() {
     this.#el.addEventListener(this.#event, this.#onInput);
+    this.#el.addEventListener("focus", this.#onFocus);
     this.#el.addEventListener("blur", this.#onBlur);
     this.#field.on("change", this.#onFieldChange);
+    this.#field.on("validate", this.#onFieldValidate);
+    this.#field.on("reset", this.#onFieldValidate);
+    this.#field.on("hide", this.#onFieldActive);
+    this.#field.on("disable", this.#onFieldActive);
+    this.#onFieldValidate();
   }
 
   disable() {
     this.#el.removeEventListener(this.#event, this.#onInput);
+    this.#el.removeEventListener("focus", this.#onFocus);
     this.#el.removeEventListener("blur", this.#onBlur);
     this.#field.off("change", this.#onFieldChange);
+    this.#field.off("validate", this.#onFieldValidate);
+    this.#field.off("reset", this.#onFieldValidate);
+    this.#field.off("hide", this.#onFieldActive);
+    this.#field.off("disable", this.#onFieldActive);
   }
 
   protected getValue(el: E): T {
@@ -55,24 +136,74 @@ export class InputController<E extends HTMLElement, T> {
   }
 
   #onInput = (e: Event) => {
-    const value = this.getValue(this.#el);
+    // Controls without a read-only state, like selects, are put back
+    if (this.#field.isReadOnly) {
+      this.#write(this.#field.value);
+      return;
+    }
+
+    const value =
+      this.#parse && this.#text
+        ? this.#parse(this.#text.value)
+        : this.getValue(this.#el);
     this.#field.off("change", this.#onFieldChange);
     this.#field.value = value;
     this.#field.on("change", this.#onFieldChange);
+    this.#onFieldValidate();
+
+    const el = this.#text;
+    if (this.#format && el) {
+      const text = this.#format(value);
+      // Reformatting must not drop what the user is typing, like the digits
+      // of a decimal part or a trailing decimal separator, so it waits for
+      // blur unless only grouping and literals change
+      const trailing = el.value.slice(-1);
+      if (
+        significant(text) === significant(el.value) &&
+        (!trailing || significant(trailing) || text.endsWith(trailing))
+      ) {
+        replaceText(el, text);
+      }
+    }
 
     if (this.#validationMode == "change") {
-      this.#validateField();
+      validateField(this.#field);
     }
   };
 
+  #onFocus = (e: Event) => {
+    this.#field.setFocused(true);
+  };
+
   #onBlur = (e: Event) => {
+    if (this.#format && this.#text) {
+      this.#text.value = this.#format(this.#field.value);
+    }
+    this.#field.setFocused(false);
     if (this.#validationMode == "blur") {
-      this.#validateField();
+      validateField(this.#field);
     }
   };
 
   #onFieldChange = () => {
-    setValue(this.#el, this.#field.value);
+    this.#write(this.#field.value);
+    this.#onFieldValidate();
+  };
+
+  #write(value: T | undefined) {
+    if (this.#format && this.#text) {
+      this.#text.value = this.#format(value);
+    } else {
+      setValue(this.#el, value);
+    }
+  }
+
+  // Keeps the browser's constraint validation in line with the field
+  #onFieldValidate = () => {
+    setCustomValidity(this.#el, this.#field.errors);
+  };
+  #onFieldActive = () => {
+    setDisabled(this.#el, !this.#field.isActive);
   };
 }
 
@@ -103,6 +234,175 @@ export class DateInputController extends InputController<
   }
 }
 
+/**
+ * Uploads `file`, calling `progress` as data is sent. `signal` is aborted when
+ * other files are selected or the controller is disabled.
+ */
+export type FileUpload = (
+  file: File,
+  options: {
+    signal: AbortSignal;
+    progress(loaded: number, total?: number): void;
+  },
+) => Promise<void>;
+
+/**
+ * An object URL showing `file`, eg. as the `src` of an image
+ */
+export interface FilePreview {
+  file: File;
+  url: string;
+}
+
+export interface FileInputControllerOptions extends ControllerOptions<File[]> {
+  /**
+   * Uploads the selected files once they pass validation, reporting progress
+   * through `Field.progress`. A failed upload becomes an error on the field.
+   */
+  upload?: FileUpload;
+  /**
+   * Called with the previews of the selected files whenever they change,
+   * see `FileInputController.previews`
+   */
+  onPreviews?: (previews: FilePreview[]) => void;
+}
+
+/**
+ * Binds a file input to a field holding the selected files. The files can
+ * only be chosen by the user, so the field value is never written back,
+ * except that an empty value clears the input.
+ */
+export class FileInputController extends InputController<
+  HTMLInputElement,
+  File[]
+> {
+  #upload: FileUpload | undefined;
+  #abort: AbortController | undefined;
+  #onPreviews: ((previews: FilePreview[]) => void) | undefined;
+  #previews = new Map<File, string>();
+  constructor(el: HTMLInputElement, options: FileInputControllerOptions) {
+    super(el, {
+      ...options,
+      event: "change",
+    });
+    this.#upload = options.upload;
+    this.#onPreviews = options.onPreviews;
+  }
+
+  /**
+   * Object URLs for the files of the field, created as they are asked for.
+   * They are revoked once a file leaves the field, and when the controller
+   * is disabled.
+   */
+  get previews(): FilePreview[] {
+    return (this.field.value ?? []).map((file) => {
+      let url = this.#previews.get(file);
+      if (!url) {
+        url = URL.createObjectURL(file);
+        this.#previews.set(file, url);
+      }
+      return { file, url };
+    });
+  }
+
+  enable() {
+    super.enable();
+    this.element.addEventListener("change", this.#onFiles);
+    this.field.on("change", this.#onFieldFiles);
+    this.#onPreviews?.(this.previews);
+  }
+
+  disable() {
+    super.disable();
+    this.element.removeEventListener("change", this.#onFiles);
+    this.field.off("change", this.#onFieldFiles);
+    this.#abort?.abort();
+    this.#abort = undefined;
+    this.#revokePreviews([]);
+  }
+
+  protected getValue(el: HTMLInputElement): File[] {
+    return Array.from(el.files ?? []);
+  }
+
+  #onFieldFiles = () => {
+    this.#revokePreviews(this.field.value ?? []);
+    this.#onPreviews?.(this.previews);
+  };
+
+  // Revokes the previews of files not in `keep`
+  #revokePreviews(keep: File[]) {
+    for (const [file, url] of this.#previews) {
+      if (keep.includes(file)) continue;
+      URL.revokeObjectURL(url);
+      this.#previews.delete(file);
+    }
+  }
+
+  #onFiles = async () => {
+    this.#abort?.abort();
+    this.field.setExternalErrors(this, []);
+    this.field.setExternalErrors(FAILURE, []);
+
+    const upload = this.#upload;
+    const files = this.field.value ?? [];
+    if (!upload || !files.length) return;
+
+    const abort = new AbortController();
+    this.#abort = abort;
+
+    // Listeners cannot report failures, so they become errors on the field
+    try {
+      await this.#uploadFiles(upload, files, abort);
+    } catch (e) {
+      if (abort.signal.aborted) return;
+      this.#abort = undefined;
+      reportFailure(this.field, e);
+    }
+  };
+
+  async #uploadFiles(
+    upload: FileUpload,
+    files: File[],
+    abort: AbortController,
+  ) {
+    if (!(await this.field.validate()) || abort.signal.aborted) return;
+
+    const errors: ValidationError[] = [];
+    await Promise.all(
+      files.map(async (file) => {
+        const report = (
+          status: "uploading" | "done" | "error",
+          loaded: number,
+          total = file.size,
+          error?: Error,
+        ) => {
+          if (abort.signal.aborted) return;
+          this.field.setProgress({ file, loaded, total, status, error });
+        };
+
+        report("uploading", 0);
+        try {
+          await upload(file, {
+            signal: abort.signal,
+            progress: (loaded, total) => report("uploading", loaded, total),
+          });
+          report("done", file.size);
+        } catch (e) {
+          const error = e instanceof Error ? e : new Error(String(e));
+          report("error", 0, file.size, error);
+          errors.push(new ValidationError(`${file.name}: ${error.message}`));
+        }
+      }),
+    );
+
+    if (!abort.signal.aborted) {
+      this.#abort = undefined;
+      this.field.setExternalErrors(this, errors);
+    }
+  }
+}
+
 export class SelectController<T> extends InputController<HTMLSelectElement, T> {
   constructor(el: HTMLSelectElement, options: ControllerOptions<T>) {
     super(el, {
@@ -112,4 +412,304 @@ export class SelectController<T> extends InputController<HTMLSelectElement, T> {
   }
 }
 
+export interface ElementControllerOptions<T> extends ControllerOptions<T> {
+  /**
+   * Overrides the protocol found by `controlProtocol`
+   */
+  protocol?: ControlProtocol<T>;
+}
+
+/**
+ * Binds an element which is not a native form control, like a
+ * `contenteditable` region or a web component, through its `ControlProtocol`.
+ * Focus is tracked with `focusin` and `focusout`, so moving between the
+ * parts of a component does not leave the field.
+ */
+export class ElementController<T> implements Controller {
+  #el: HTMLElement;
+  #field: Field<string, T>;
+  #validationMode: ValidateMode;
+  #protocol: ControlProtocol<T>;
+  #events: string[];
+  #focused = false;
+  constructor(el: HTMLElement, options: ElementControllerOptions<T>) {
+    this.#el = el;
+    this.#field = options.field;
+    this.#validationMode = options.validateMode ?? "change";
+    this.#protocol = options.protocol ?? controlProtocol(el) ?? {};
+    this.#events = protocolEvents(this.#protocol);
+    writeControl(el, this.#protocol, options.field.value);
+    if (!options.field.isActive) setDisabled(el, true);
+  }
+
+  get element() {
+    return this.#el;
+  }
+
+  get field() {
+    return this.#field;
+  }
+
+  enable() {
+    for (const event of this.#events) {
+      this.#el.addEventListener(event, this.#onInput);
+    }
+    this.#el.addEventListener("focusin", this.#onFocus);
+    this.#el.addEventListener("focusout", this.#onBlur);
+    this.#field.on("change", this.#onFieldChange);
+    this.#field.on("validate", this.#onFieldValidate);
+    this.#field.on("reset", this.#onFieldValidate);
+    this.#field.on("hide", this.#onFieldActive);
+    this.#field.on("disable", this.#onFieldActive);
+    this.#onFieldValidate();
+  }
+
+  disable() {
+    for (const event of this.#events) {
+      this.#el.removeEventListener(event, this.#onInput);
+    }
+    this.#el.removeEventListener("focusin", this.#onFocus);
+    this.#el.removeEventListener("focusout", this.#onBlur);
+    this.#field.off("change", this.#onFieldChange);
+    this.#field.off("validate", this.#onFieldValidate);
+    this.#field.off("reset", this.#onFieldValidate);
+    this.#field.off("hide", this.#onFieldActive);
+    this.#field.off("disable", this.#onFieldActive);
+  }
+
+  #onInput = (e: Event) => {
+    this.#field.off("change", this.#onFieldChange);
+    this.#field.value = readControl(this.#el, this.#protocol, e);
+    this.#field.on("change", this.#onFieldChange);
+    this.#onFieldValidate();
+
+    if (this.#validationMode == "change") {
+      validateField(this.#field);
+    }
+  };
+
+  #onFocus = () => {
+    if (this.#focused) return;
+    this.#focused = true;
+    this.#field.setFocused(true);
+  };
+
+  #onBlur = (e: FocusEvent) => {
+    const next = e.relatedTarget as Node | null;
+    if (next && this.#el.contains(next)) return;
+
+    this.#focused = false;
+    this.#field.setFocused(false);
+    if (this.#validationMode == "blur") {
+      validateField(this.#field);
+    }
+  };
+
+  #onFieldChange = () => {
+    writeControl(this.#el, this.#protocol, this.#field.value);
+    this.#onFieldValidate();
+  };
+
+  #onFieldValidate = () => {
+    setCustomValidity(this.#el, this.#field.errors);
+  };
+
+  #onFieldActive = () => {
+    setDisabled(this.#el, !this.#field.isActive);
+  };
+}
+
+/**
+ * Binds a set of inputs sharing a name to one field. Inputs may be added and
+ * removed while the controller is enabled.
+ */
+abstract class GroupController<T> implements Controller {
+  #els = new Set<HTMLInputElement>();
+  #field: Field<string, T>;
+  #validationMode: ValidateMode;
+  #enabled = false;
+  constructor(
+    els: Iterable<HTMLInputElement>,
+    options: ControllerOptions<T>,
+  ) {
+    this.#field = options.field;
+    this.#validationMode = options.validateMode ?? "change";
+    for (const el of els) {
+      this.add(el);
+    }
+  }
+
+  get elements() {
+    return Array.from(this.#els);
+  }
+
+  /**
+   * The first input of the group in the document
+   */
+  get element() {
+    const first = firstInDocument(this.#els);
+    if (!first) {
+      throw new Error("Empty group");
+    }
+    return first;
+  }
+
+  get field() {
+    return this.#field;
+  }
+
+  add(el: HTMLInputElement) {
+    if (this.#els.has(el)) return;
+    this.#els.add(el);
+    if (this.#field.isRequired) el.required = true;
+    if (!this.#field.isActive) el.disabled = true;
+    this.update(el, this.#field.value);
+    if (this.#enabled) this.#attach(el);
+  }
+
+  /**
+   * Removes `el` from the group, returning the number of inputs left
+   */
+  remove(el: HTMLInputElement) {
+    if (this.#els.delete(el) && this.#enabled) {
+      this.#detach(el);
+    }
+    return this.#els.size;
+  }
+
+  enable() {
+    if (this.#enabled) return;
+    this.#enabled = true;
+    this.#els.forEach((el) => this.#attach(el));
+    this.#field.on("change", this.#onFieldChange);
+    this.#field.on("validate", this.#onFieldValidate);
+    this.#field.on("reset", this.#onFieldValidate);
+    this.#field.on("hide", this.#onFieldActive);
+    this.#field.on("disable", this.#onFieldActive);
+    this.#onFieldValidate();
+  }
+
+  disable() {
+    if (!this.#enabled) return;
+    this.#enabled = false;
+    this.#els.forEach((el) => this.#detach(el));
+    this.#field.off("change", this.#onFieldChange);
+    this.#field.off("validate", this.#onFieldValidate);
+    this.#field.off("reset", this.#onFieldValidate);
+    this.#field.off("hide", this.#onFieldActive);
+    this.#field.off("disable", this.#onFieldActive);
+  }
+
+  /**
+   * The field value after `el` was checked or unchecked
+   */
+  protected abstract getValue(el: HTMLInputElement): T | undefined;
+
+  /**
+   * Checks or unchecks `el` according to the field value
+   */
+  protected abstract update(el: HTMLInputElement, value: T | undefined): void;
+
+  #attach(el: HTMLInputElement) {
+    el.addEventListener("change", this.#onChange);
+    el.addEventListener("focus", this.#onFocus);
+    el.addEventListener("blur", this.#onBlur);
+  }
+
+  #detach(el: HTMLInputElement) {
+    el.removeEventListener("change", this.#onChange);
+    el.removeEventListener("focus", this.#onFocus);
+    el.removeEventListener("blur", this.#onBlur);
+  }
+
+  #onChange = (e: Event) => {
+    this.#field.value = this.getValue(e.target as HTMLInputElement);
+    this.#onFieldValidate();
+
+    if (this.#validationMode == "change") {
+      validateField(this.#field);
+    }
+  };
+
+  #onFocus = () => {
+    this.#field.setFocused(true);
+  };
+
+  // Moving between the inputs of the group does not leave the field
+  #onBlur = (e: FocusEvent) => {
+    if (this.#els.has(e.relatedTarget as HTMLInputElement)) return;
+
+    this.#field.setFocused(false);
+    if (this.#validationMode == "blur") {
+      validateField(this.#field);
+    }
+  };
+
+  #onFieldChange = () => {
+    for (const el of this.#els) {
+      this.update(el, this.#field.value);
+    }
+    this.#onFieldValidate();
+  };
+
+  #onFieldValidate = () => {
+    for (const el of this.#els) {
+      setCustomValidity(el, this.#field.errors);
+    }
+  };
+
+  #onFieldActive = () => {
+    for (const el of this.#els) {
+      setDisabled(el, !this.#field.isActive);
+    }
+  };
+}
+
+/**
+ * Binds radio buttons sharing a name to a field holding the value of the
+ * checked one
+ */
+export class RadioGroupController extends GroupController<string> {
+  protected getValue(el: HTMLInputElement) {
+    return el.checked ? el.value : this.field.value;
+  }
+
+  protected update(el: HTMLInputElement, value: string | undefined) {
+    setValue(el, value);
+  }
+}
+
+/**
+ * Binds checkboxes sharing a name to a field holding the values of the checked
+ * ones. An `ObservableList` value is updated in place; values without a
+ * checkbox are kept.
+ */
+export class CheckboxGroupController<
+  T extends string[] | IObservableList<string> = string[],
+> extends GroupController<T> {
+  protected getValue(el: HTMLInputElement): T {
+    const current = this.field.value;
+    if (current instanceof ObservableList) {
+      const index = current.toJSON().indexOf(el.value);
+      if (el.checked && index === -1) {
+        current.push(el.value);
+      } else if (!el.checked && index !== -1) {
+        current.remove(index);
+      }
+      return current as T;
+    }
+
+    const known = this.elements.map((input) => input.value);
+    const checked = this.elements
+      .filter((input) => input.checked)
+      .map((input) => input.value);
+    const rest = toStrings(current).filter((value) => !known.includes(value));
+    return [...checked, ...rest] as T;
+  }
+
+  protected update(el: HTMLInputElement, value: T | undefined) {
+    el.checked = toStrings(value).includes(el.value);
+  }
+}
+
 export type TextAreaController = InputController<HTMLTextAreaElement, string>;
@@ -0,0 +1,227 @@
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { DomForm } from "./form";
+
+describe("DomForm", () => {
+  let el: HTMLFormElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <form>
+        <input name="username" />
+        <input name="email" required />
+        <input name="phone" required />
+      </form>
+    `;
+    el = document.querySelector("form")!;
+  });
+
+  describe("submit", () => {
+    test("should submit valid forms", async () => {
+      const form = DomForm.create(el);
+      form.enable();
+      form.form.field("email").setValue("a@b.c");
+      form.form.field("phone").setValue("1234");
+
+      const submitFn = vi.fn();
+      expect(await form.submit(submitFn)).toBe(true);
+      expect(submitFn).toHaveBeenCalledWith({
+        username: "",
+        email: "a@b.c",
+        phone: "1234",
+      });
+    });
+
+    test("should focus the first invalid control", async () => {
+      const form = DomForm.create(el);
+      form.enable();
+
+      const submitFn = vi.fn();
+      expect(await form.submit(submitFn)).toBe(false);
+
+      expect(submitFn).not.toHaveBeenCalled();
+      expect(document.activeElement).toBe(el.querySelector("[name=email]"));
+    });
+  });
+
+  describe("submit events", () => {
+    test("should call the submit handler with the form value", async () => {
+      const submit = vi.fn();
+      const form = DomForm.create(el, { submit });
+      form.enable();
+      form.field("email").setValue("a@b.c");
+      form.field("phone").setValue("1234");
+
+      const event = new Event("submit", { cancelable: true });
+      el.dispatchEvent(event);
+
+      expect(event.defaultPrevented).toBe(true);
+      await vi.waitFor(() => expect(submit).toHaveBeenCalled());
+      expect(submit.mock.calls[0][0]).toMatchObject({ email: "a@b.c" });
+    });
+
+    test("should not call the submit handler when invalid", async () => {
+      const submit = vi.fn();
+      const form = DomForm.create(el, { submit });
+      form.enable();
+
+      el.dispatchEvent(new Event("submit", { cancelable: true }));
+
+      await vi.waitFor(() => expect(form.form.isSubmitted).toBe(true));
+      expect(submit).not.toHaveBeenCalled();
+    });
+
+    test("should report failures of the submit handler", async () => {
+      const error = new Error("Submit failed");
+      const form = DomForm.create(el, {
+        submit: () => {
+          throw error;
+        },
+      });
+      form.enable();
+      form.field("email").setValue("a@b.c");
+      form.field("phone").setValue("1234");
+
+      el.dispatchEvent(new Event("submit", { cancelable: true }));
+
+      await vi.waitFor(() => expect(form.form.submitError).toBe(error));
+    });
+
+    test("should stop handling submit events when disabled", () => {
+      const submit = vi.fn();
+      const form = DomForm.create(el, { submit });
+      form.enable();
+      form.disable();
+
+      const event = new Event("submit", { cancelable: true });
+      el.dispatchEvent(event);
+
+      expect(event.defaultPrevented).toBe(false);
+      expect(form.status).toBe("idle");
+    });
+  });
+
+  describe("reset events", () => {
+    test("should reset the form to its default values", () => {
+      const form = DomForm.create(el);
+      form.enable();
+      const input = el.querySelector<HTMLInputElement>("[name=username]")!;
+
+      input.value = "john";
+      input.dispatchEvent(new Event("input"));
+      expect(form.field("username").value).toBe("john");
+
+      el.dispatchEvent(new Event("reset", { cancelable: true }));
+
+      expect(form.field("username").value).toBe("");
+      expect(input.value).toBe("");
+    });
+  });
+
+  describe("controls", () => {
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <form>
+          <textarea name="bio">Hello</textarea>
+          <input type="checkbox" name="newsletter" checked />
+          <input type="radio" name="plan" value="free" />
+          <input type="radio" name="plan" value="pro" checked />
+          <input type="file" name="avatar" />
+          <button name="action" value="save">Save</button>
+          <input type="submit" name="go" />
+        </form>
+      `;
+      el = document.querySelector("form")!;
+    });
+
+    test("should read the initial values", () => {
+      const form = DomForm.create(el);
+
+      expect(form.form.toJSON()).toMatchObject({
+        bio: "Hello",
+        newsletter: true,
+        plan: "pro",
+      });
+    });
+
+    test("should ignore buttons", () => {
+      const form = DomForm.create(el);
+
+      expect(form.form.toJSON()).not.toHaveProperty("action");
+      expect(form.form.toJSON()).not.toHaveProperty("go");
+    });
+
+    test("should update a radio group", () => {
+      const form = DomForm.create(el);
+      form.enable();
+      const [free, pro] = el.querySelectorAll<HTMLInputElement>("[name=plan]");
+
+      free.checked = true;
+      free.dispatchEvent(new Event("change"));
+      expect(form.field("plan").value).toBe("free");
+
+      form.field("plan").setValue("pro");
+      expect(pro.checked).toBe(true);
+      expect(free.checked).toBe(false);
+    });
+
+    test("should bind checkboxes sharing a name to a list", () => {
+      el.insertAdjacentHTML(
+        "beforeend",
+        `<input type="checkbox" name="tags" value="a" checked />
+         <input type="checkbox" name="tags" value="b" />`,
+      );
+      const form = DomForm.create(el);
+      form.enable();
+      const [, b] = el.querySelectorAll<HTMLInputElement>("[name=tags]");
+
+      expect(form.field("tags").value).toEqual(["a"]);
+
+      b.checked = true;
+      b.dispatchEvent(new Event("change"));
+      expect(form.field("tags").value).toEqual(["a", "b"]);
+    });
+
+    test("should update checkboxes on change", () => {
+      const form = DomForm.create(el);
+      form.enable();
+      const checkbox = el.querySelector<HTMLInputElement>("[name=newsletter]")!;
+
+      checkbox.checked = false;
+      checkbox.dispatchEvent(new Event("change"));
+
+      expect(form.field("newsletter").value).toBe(false);
+    });
+  });
+
+  describe("custom controls", () => {
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <form>
+          <div name="notes" contenteditable="true">Draft</div>
+          <a name="top"></a>
+        </form>
+      `;
+      el = document.querySelector("form")!;
+    });
+
+    test("should bind contenteditable regions", () => {
+      const form = DomForm.create(el);
+      form.enable();
+      const notes = el.querySelector<HTMLElement>("[name=notes]")!;
+
+      expect(form.form.toJSON()).toEqual({ notes: "Draft" });
+
+      notes.textContent = "Final";
+      notes.dispatchEvent(new Event("input"));
+      expect(form.field("notes").value).toBe("Final");
+    });
+  });
+
+  describe("focusInvalid", () => {
+    test("should do nothing when every field is valid", () => {
+      const form = DomForm.create(el);
+
+      expect(form.focusInvalid()).toBeUndefined();
+    });
+  });
+});
@@ -1,79 +1,231 @@
 import { FieldOptions } from "../field";
 import { Form } from "../form.js";
-import { Controller, InputController, SelectController } from "./controller.js";
-import { getValue } from "./util";
+import {
+  CheckboxGroupController,
+  Controller,
+  ControllerOptions,
+  ElementController,
+  FileInputController,
+  type FileUpload,
+  InputController,
+  RadioGroupController,
+  SelectController,
+  ValidateMode,
+} from "./controller.js";
+import { constraintsFromElement } from "./constraints.js";
+import { controlProtocol, readControl } from "./protocol.js";
+import { focusFirst, getValue } from "./util";
 
-function fieldFromElement(
-  form: Record<string, Omit<FieldOptions<string, unknown>, "name">>,
-  el: HTMLElement,
-) {
-  const name = el.getAttribute("name");
-  if (!name) {
-    throw new Error("No name");
-  }
+type Values = Record<string, unknown>;
+
+export interface DomFormOptions {
+  /**
+   * Called with the form value when a valid form is submitted. Without it, a
+   * valid form is submitted natively.
+   */
+  submit?: (value: Values) => Promise<void> | void;
+  validateMode?: ValidateMode;
+  submitOnError?: boolean;
+  /**
+   * Uploads the files selected in file inputs, see `FileInputController`
+   */
+  upload?: FileUpload;
+}
 
+// Elements carrying a name which are not form values
+const IGNORED_TYPES = ["submit", "reset", "button", "image"];
+
+function isControl(el: Element): el is HTMLElement {
+  if (el instanceof HTMLButtonElement || el instanceof HTMLFieldSetElement) {
+    return false;
+  }
   if (el instanceof HTMLInputElement) {
-    form[name] = {
-      required: el.required,
-      value: getValue(el),
-    };
-  } else if (el instanceof HTMLSelectElement) {
-    form[name] = {
-      required: el.required,
+    return !IGNORED_TYPES.includes(el.type);
+  }
+  if (el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement) {
+    return true;
+  }
+  // Other elements, like web components, are controls when they declare a
+  // protocol
+  return el instanceof HTMLElement && controlProtocol(el) !== undefined;
+}
+
+type Group =
+  | { type: "radio"; els: HTMLInputElement[] }
+  | { type: "checkbox"; els: HTMLInputElement[] }
+  | { type: "single"; el: HTMLElement };
+
+function isInput(el: HTMLElement, type: string): el is HTMLInputElement {
+  return el instanceof HTMLInputElement && el.type === type;
+}
+
+// Radios sharing a name, and several checkboxes sharing a name, make up a
+// single field
+function toGroup(els: HTMLElement[]): Group {
+  if (els.every((el) => isInput(el, "radio"))) {
+    return { type: "radio", els: els as HTMLInputElement[] };
+  }
+  if (els.length > 1 && els.every((el) => isInput(el, "checkbox"))) {
+    return { type: "checkbox", els: els as HTMLInputElement[] };
+  }
+  return { type: "single", el: els[els.length - 1] };
+}
+
+function fieldFromGroup(
+  group: Group,
+): Omit<FieldOptions<string, unknown>, "name"> {
+  switch (group.type) {
+    case "radio":
+      return {
+        required: group.els.some((el) => el.required),
+        value: group.els.find((el) => el.checked)?.value,
+      };
+    case "checkbox":
+      return {
+        required: group.els.some((el) => el.required),
+        value: group.els.filter((el) => el.checked).map((el) => el.value),
+      };
+  }
+
+  const el = group.el;
+  if (
+    el instanceof HTMLInputElement ||
+    el instanceof HTMLSelectElement ||
+    el instanceof HTMLTextAreaElement
+  ) {
+    return {
+      ...constraintsFromElement(el),
       value: getValue(el),
     };
   }
+  return {
+    value: readControl(el, controlProtocol(el)!),
+  };
 }
 
-function createForm(el: HTMLFormElement) {
-  let els = el.querySelectorAll("[name]");
+function createController(
+  group: Group,
+  options: ControllerOptions<any> & { upload?: FileUpload },
+): Controller {
+  switch (group.type) {
+    case "radio":
+      return new RadioGroupController(group.els, options);
+    case "checkbox":
+      return new CheckboxGroupController(group.els, options);
+  }
 
-  const fields = {};
-  for (const el of els) {
-    fieldFromElement(fields, el as HTMLElement);
+  const el = group.el;
+  if (el instanceof HTMLSelectElement) {
+    return new SelectController(el, options);
+  }
+  if (isInput(el, "file")) {
+    return new FileInputController(el, options);
   }
+  if (!(el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement)) {
+    return new ElementController(el, options);
+  }
+  return new InputController(el, {
+    ...options,
+    // Checkboxes report their value on "change" rather than "input"
+    event: isInput(el, "checkbox") ? "change" : "input",
+  });
+}
 
-  const form = new Form<Record<string, unknown>>({
+function createForm(el: HTMLFormElement, options: DomFormOptions) {
+  const named = new Map<string, HTMLElement[]>();
+  for (const control of el.querySelectorAll("[name]")) {
+    if (!isControl(control)) continue;
+    const name = control.getAttribute("name")!;
+    named.set(name, [...(named.get(name) ?? []), control]);
+  }
+
+  const groups = new Map<string, Group>();
+  const fields: Record<string, Omit<FieldOptions<string, unknown>, "name">> =
+    {};
+  for (const [name, els] of named) {
+    const group = toGroup(els);
+    groups.set(name, group);
+    fields[name] = fieldFromGroup(group);
+  }
+
+  const form = new Form<Values>({
     fields,
+    submitOnError: options.submitOnError,
   });
 
-  const controllers = [];
-  for (const el of els) {
-    const name = el.getAttribute("name")!;
-    if (el instanceof HTMLSelectElement) {
-      controllers.push(
-        new SelectController(el, {
-          field: form.field(name),
-        }),
-      );
-    } else {
-      controllers.push(
-        new InputController(el as HTMLElement, {
-          field: form.field(name),
-        }),
-      );
-    }
+  const controllers: Controller[] = [];
+  for (const [name, group] of groups) {
+    controllers.push(
+      createController(group, {
+        field: form.field(name),
+        validateMode: options.validateMode,
+        upload: options.upload,
+      }),
+    );
   }
 
-  return new DomForm(el, controllers, form);
+  return new DomForm(el, controllers, form, options);
 }
 
+/**
+ * Binds a `Form` to a `<form>` element, with a field for every named control.
+ * Named elements other than native controls are bound when they have a
+ * `ControlProtocol`.
+ */
 export class DomForm {
   #controllers: Controller[];
-  #form: Form<Record<string, unknown>>;
+  #form: Form<Values>;
   #el: HTMLFormElement;
+  #options: DomFormOptions;
   constructor(
     el: HTMLFormElement,
     controllers: Controller[],
-    form: Form<Record<string, unknown>>,
+    form: Form<Values>,
+    options: DomFormOptions = {},
   ) {
     this.#el = el;
     this.#controllers = controllers;
     this.#form = form;
+    this.#options = options;
+  }
+
+  static create(el: HTMLFormElement, options: DomFormOptions = {}) {
+    return createForm(el, options);
+  }
+
+  get form() {
+    return this.#form;
+  }
+
+  get status() {
+    return this.#form.status;
   }
 
-  static create(el: HTMLFormElement) {
-    return createForm(el);
+  field(name: string) {
+    return this.#form.field(name);
+  }
+
+  /**
+   * Submits the form, moving focus to the first invalid control when
+   * validation fails
+   */
+  async submit(func: (value: Values) => Promise<void> | void) {
+    const ok = await this.#form.submit(func);
+    if (!this.#form.isValid) {
+      this.focusInvalid();
+    }
+    return ok;
+  }
+
+  /**
+   * Focuses the first control, in document order, whose field is invalid
+   */
+  focusInvalid() {
+    return focusFirst(
+      this.#controllers
+        .filter((ctrl) => !ctrl.field.isValid)
+        .map((ctrl) => ctrl.element),
+    );
   }
 
   enable() {
@@ -81,12 +233,30 @@ export class DomForm {
       ctrl.enable();
     }
 
-    this.#el.addEventListener("submit", (e) => {});
+    this.#el.addEventListener("submit", this.#onSubmit);
+    this.#el.addEventListener("reset", this.#onReset);
   }
 
   disable() {
     for (const ctrl of this.#controllers) {
       ctrl.disable();
     }
+
+    this.#el.removeEventListener("submit", this.#onSubmit);
+    this.#el.removeEventListener("reset", this.#onReset);
   }
+
+  #onSubmit = (e: SubmitEvent) => {
+    // Validation may be asynchronous, so the native submit is always
+    // stopped and, without a handler, performed once the form is valid.
+    // Failures end up in the form's `submitError`.
+    e.preventDefault();
+    this.submit(this.#options.submit ?? (() => this.#el.submit()));
+  };
+
+  #onReset = (e: Event) => {
+    // The form writes its default values back to the controls
+    e.preventDefault();
+    this.#form.reset();
+  };
 }
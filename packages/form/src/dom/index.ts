@@ -1,2 +1,5 @@
+export * from "./constraints.js";
 export * from "./controller.js";
+export * from "./form.js";
+export * from "./protocol.js";
 export * from "./util.js";
@@ -0,0 +1,103 @@
+/**
+ * Describes how to bind an element which is not a native form control, eg. a
+ * web component from a design system.
+ *
+ * A component declares its protocol through a static `formControl` property
+ * on its class; components which cannot be changed are registered with
+ * `registerControl` instead.
+ */
+export interface ControlProtocol<T = unknown> {
+  /**
+   * Property holding the value. Defaults to `value`.
+   */
+  property?: string;
+  /**
+   * Events fired when the user changes the value. Defaults to `input` and
+   * `change`.
+   */
+  event?: string | string[];
+  /**
+   * Reads the value, eg. from the `detail` of a custom event. Defaults to
+   * reading `property`.
+   */
+  get?(el: HTMLElement, event?: Event): T | undefined;
+  /**
+   * Writes the value. Defaults to assigning `property`.
+   */
+  set?(el: HTMLElement, value: T | undefined): void;
+}
+
+/**
+ * The value of a `contenteditable` region is its text
+ */
+export const contentEditable: ControlProtocol<string> = {
+  event: "input",
+  get: (el) => el.textContent ?? "",
+  set: (el, value) => {
+    const text = value ?? "";
+    if (el.textContent !== text) el.textContent = text;
+  },
+};
+
+const registry = new Map<string, ControlProtocol<any>>();
+
+/**
+ * Registers the protocol of the elements named `tagName`
+ */
+export function registerControl(tagName: string, protocol: ControlProtocol<any>) {
+  registry.set(tagName.toLowerCase(), protocol);
+}
+
+export function isContentEditable(el: HTMLElement) {
+  const attr = el.getAttribute("contenteditable");
+  return attr !== null && attr !== "false";
+}
+
+type ControlClass = {
+  formControl?: ControlProtocol<any>;
+  formAssociated?: boolean;
+};
+
+/**
+ * The protocol for binding `el`, or `undefined` for elements which are not
+ * controls. Registered protocols come first, then the one declared by the
+ * class of the element. Form-associated custom elements get the defaults.
+ */
+export function controlProtocol(
+  el: HTMLElement,
+): ControlProtocol<any> | undefined {
+  const registered = registry.get(el.localName);
+  if (registered) return registered;
+
+  const ctor = el.constructor as ControlClass;
+  if (ctor.formControl) return ctor.formControl;
+  if (isContentEditable(el)) return contentEditable;
+  if (ctor.formAssociated) return {};
+  return undefined;
+}
+
+export function protocolEvents(protocol: ControlProtocol<any>): string[] {
+  const event = protocol.event ?? ["input", "change"];
+  return Array.isArray(event) ? event : [event];
+}
+
+export function readControl<T>(
+  el: HTMLElement,
+  protocol: ControlProtocol<T>,
+  event?: Event,
+): T | undefined {
+  if (protocol.get) return protocol.get(el, event);
+  return (el as any)[protocol.property ?? "value"];
+}
+
+export function writeControl<T>(
+  el: HTMLElement,
+  protocol: ControlProtocol<T>,
+  value: T | undefined,
+) {
+  if (protocol.set) {
+    protocol.set(el, value);
+  } else {
+    (el as any)[protocol.property ?? "value"] = value;
+  }
+}
@@ -1,3 +1,5 @@
+import { controlProtocol, readControl, writeControl } from "./protocol.js";
+
 export function getValue<T extends HTMLElement>(el: T) {
   if (el instanceof HTMLInputElement) {
     switch (el.type) {
@@ -6,9 +8,12 @@ export function getValue<T extends HTMLElement>(el: T) {
       case "date":
         return el.valueAsDate;
       case "file":
-        return el.files;
+        return Array.from(el.files ?? []);
       case "checkbox":
         return el.checked;
+      case "radio":
+        // Only the checked radio of a group carries its value
+        return el.checked ? el.value : undefined;
       default:
         return el.value;
     }
@@ -17,29 +22,136 @@ export function getValue<T extends HTMLElement>(el: T) {
     return el.value;
   }
   if (el instanceof HTMLSelectElement) {
-    return el.value;
+    return el.multiple
+      ? Array.from(el.selectedOptions, (option) => option.value)
+      : el.value;
+  }
+  const protocol = controlProtocol(el);
+  if (protocol) {
+    return readControl(el, protocol);
   }
   return el.textContent;
 }
 
 export function setValue<T extends HTMLElement>(el: T, value: unknown) {
   if (el instanceof HTMLInputElement) {
-    if (el.type === "checkbox") {
-      el.checked = !!value;
-    } else {
-      if (el.type === "date" && value instanceof Date) {
-        el.valueAsDate = value;
-      } else {
-        el.value = `${value}`;
-      }
+    switch (el.type) {
+      case "checkbox":
+        el.checked = !!value;
+        break;
+      case "radio":
+        el.checked = value != null && el.value === String(value);
+        break;
+      case "file":
+        // The selected files can only be cleared from script
+        if (value == null || (Array.isArray(value) && !value.length)) {
+          el.value = "";
+        }
+        break;
+      case "date":
+        if (value instanceof Date) {
+          el.valueAsDate = value;
+          break;
+        }
+      // fall through
+      default:
+        el.value = value == null ? "" : `${value}`;
     }
   } else if (el instanceof HTMLSelectElement) {
-    el.value = String(value);
+    if (el.multiple) {
+      const selected = toStrings(value);
+      for (const option of el.options) {
+        option.selected = selected.includes(option.value);
+      }
+    } else {
+      el.value = value == null ? "" : String(value);
+    }
   } else if (el instanceof HTMLTextAreaElement) {
-    el.value = String(value);
+    el.value = value == null ? "" : String(value);
+  } else {
+    const protocol = controlProtocol(el);
+    if (protocol) writeControl(el, protocol, value);
   }
 }
 
+// Characters carrying information, as opposed to grouping and literals
+const SIGNIFICANT = /[\p{L}\p{N}]/u;
+
+/**
+ * The letters and digits of `text`
+ */
+export function significant(text: string) {
+  return Array.from(text)
+    .filter((c) => SIGNIFICANT.test(c))
+    .join("");
+}
+
+/**
+ * Replaces the text of a focused control, keeping the caret after the same
+ * number of letters and digits as before
+ */
+export function replaceText(
+  el: HTMLInputElement | HTMLTextAreaElement,
+  text: string,
+) {
+  const prev = el.value;
+  if (prev === text) return;
+
+  const caret =
+    el.ownerDocument.activeElement === el ? el.selectionStart : null;
+  el.value = text;
+  if (caret == null) return;
+
+  const count = significant(prev.slice(0, caret)).length;
+  let pos = 0;
+  for (let seen = 0; pos < text.length && seen < count; pos++) {
+    if (SIGNIFICANT.test(text[pos])) seen++;
+  }
+  el.setSelectionRange(pos, pos);
+}
+
+/**
+ * The values of an array, or other iterable such as an `ObservableList`, as
+ * strings
+ */
+export function toStrings(value: unknown): string[] {
+  if (value == null || typeof value === "string") return [];
+  if (typeof (value as Iterable<unknown>)[Symbol.iterator] !== "function") {
+    return [];
+  }
+  return Array.from(value as Iterable<unknown>, String);
+}
+
+/**
+ * Whichever of `elements` comes first in the document
+ */
+export function firstInDocument<E extends Element>(elements: Iterable<E>) {
+  let first: E | undefined;
+  for (const el of elements) {
+    if (
+      !first ||
+      first.compareDocumentPosition(el) & Node.DOCUMENT_POSITION_PRECEDING
+    ) {
+      first = el;
+    }
+  }
+  return first;
+}
+
+/**
+ * Focuses whichever of `elements` comes first in the document and scrolls it
+ * into view
+ */
+export function focusFirst(elements: Iterable<HTMLElement>) {
+  const first = firstInDocument(elements);
+  if (first) {
+    first.focus();
+    first.scrollIntoView?.({ block: "nearest" });
+  }
+
+  return first;
+}
+
 export function debounced<T extends unknown[]>(
   fn: (...args: T) => void,
   delay: number,
@@ -56,3 +168,17 @@ export function debounced<T extends unknown[]>(
 
   return out;
 }
+
+/**
+ * Disables `el`, or marks it as disabled with `aria-disabled` when it has no
+ * `disabled` property, like a `contenteditable` region
+ */
+export function setDisabled(el: HTMLElement, disabled: boolean) {
+  if ("disabled" in el) {
+    (el as HTMLInputElement).disabled = disabled;
+  } else if (disabled) {
+    el.setAttribute("aria-disabled", "true");
+  } else {
+    el.removeAttribute("aria-disabled");
+  }
+}
@@ -1,4 +1,5 @@
-import { describe, test, expect, beforeEach } from "vitest";
+import { describe, test, expect, beforeEach, vi } from "vitest";
+import { Model, ObservableList, ObservableObject } from "@kildevaeld/model";
 import { Field } from "./field";
 import { ValidationError } from "./validator";
 
@@ -256,3 +257,368 @@ describe("Field", () => {
     });
   });
 });
+
+describe("Field external errors", () => {
+  test("should merge external errors into errors", () => {
+    const field = new Field({ name: "test" });
+    const source = {};
+
+    field.setExternalErrors(source, [new ValidationError("Mismatch")]);
+
+    expect(field.isValid).toBe(false);
+    expect(field.errors[0].message).toBe("Mismatch");
+  });
+
+  test("should keep external errors when validating", async () => {
+    const field = new Field({ name: "test", value: "value" });
+    field.setExternalErrors("form", [new ValidationError("Mismatch")]);
+
+    expect(await field.validate()).toBe(false);
+    expect(field.errors).toHaveLength(1);
+  });
+
+  test("should emit validate event when external errors change", () => {
+    const field = new Field({ name: "test" });
+    const events: string[] = [];
+    field.on("validate", (e) => events.push(e.status));
+
+    field.setExternalErrors("form", [new ValidationError("Mismatch")]);
+    field.setExternalErrors("form", []);
+    field.setExternalErrors("form", []);
+
+    expect(events).toEqual(["invalid", "valid"]);
+  });
+
+  test("should clear external errors on reset", () => {
+    const field = new Field({ name: "test" });
+    field.setExternalErrors("form", [new ValidationError("Mismatch")]);
+
+    field.reset();
+
+    expect(field.isValid).toBe(true);
+  });
+});
+
+describe("Field async validation", () => {
+  function deferred() {
+    let resolve!: () => void, reject!: (e: unknown) => void;
+    const promise = new Promise<void>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  }
+
+  test("should expose validating state and events", async () => {
+    const pending = deferred();
+    const field = new Field({
+      name: "username",
+      value: "john",
+      validations: [{ validate: () => pending.promise }],
+    });
+    const events: boolean[] = [];
+    field.on("validating", (e) => events.push(e.validating));
+
+    const result = field.validate();
+    expect(field.isValidating).toBe(true);
+
+    pending.resolve();
+    expect(await result).toBe(true);
+    expect(field.isValidating).toBe(false);
+    expect(events).toEqual([true, false]);
+  });
+
+  test("should pass an abort signal and abort stale runs", async () => {
+    const signals: AbortSignal[] = [];
+    const runs = [deferred(), deferred()];
+    const field = new Field({
+      name: "username",
+      value: "taken",
+      validations: [
+        {
+          validate: (_value: string, signal?: AbortSignal) => {
+            signals.push(signal!);
+            return runs[signals.length - 1].promise;
+          },
+        },
+      ],
+    });
+
+    const first = field.validate();
+    await Promise.resolve();
+    field.value = "free";
+    const second = field.validate();
+    await Promise.resolve();
+
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+
+    // The newest run wins, even when the stale one settles last
+    runs[1].resolve();
+    runs[0].reject(new ValidationError("Taken"));
+
+    expect(await second).toBe(true);
+    expect(await first).toBe(true);
+    expect(field.errors).toHaveLength(0);
+  });
+
+  test("should abort a validation in flight when the value changes", async () => {
+    const signals: AbortSignal[] = [];
+    const runs = [deferred(), deferred()];
+    const field = new Field({
+      name: "username",
+      value: "a",
+      validations: [
+        {
+          validate: (_value: string, s?: AbortSignal) => {
+            signals.push(s!);
+            return runs[signals.length - 1].promise;
+          },
+        },
+      ],
+    });
+
+    const result = field.validate();
+    await Promise.resolve();
+    field.value = "b";
+
+    expect(signals[0].aborted).toBe(true);
+    expect(field.isValidating).toBe(false);
+
+    runs[0].reject(new ValidationError("Invalid"));
+    runs[1].resolve();
+    expect(await result).toBe(true);
+    expect(field.errors).toHaveLength(0);
+  });
+
+  test("should validate the new value when a change aborts a validation", async () => {
+    const field = new Field({
+      name: "username",
+      value: "good",
+      validations: [
+        {
+          validate: async (value: string) => {
+            await Promise.resolve();
+            if (value !== "good") throw new ValidationError("Invalid");
+          },
+        },
+      ],
+    });
+
+    const result = field.validate();
+    field.value = "bad";
+
+    expect(await result).toBe(false);
+    expect(field.errors.map((e) => e.message)).toEqual(["Invalid"]);
+  });
+
+  test("should debounce validations", async () => {
+    vi.useFakeTimers();
+    try {
+      const validate = vi.fn(async () => {});
+      const field = new Field({
+        name: "username",
+        value: "a",
+        validations: [{ debounce: 200, validate }],
+      });
+
+      field.validate();
+      await vi.advanceTimersByTimeAsync(100);
+      field.validate();
+      await vi.advanceTimersByTimeAsync(100);
+      expect(validate).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(100);
+      expect(validate).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("Field interaction", () => {
+  test("should start untouched", () => {
+    const field = new Field({ name: "test" });
+    expect(field.isFocused).toBe(false);
+    expect(field.isVisited).toBe(false);
+    expect(field.isTouched).toBe(false);
+  });
+
+  test("should mark the field as visited when focused", () => {
+    const field = new Field({ name: "test" });
+    const listener = vi.fn();
+    field.on("visit", listener);
+
+    field.setFocused(true);
+
+    expect(field.isFocused).toBe(true);
+    expect(field.isVisited).toBe(true);
+    expect(field.isTouched).toBe(false);
+    expect(listener).toHaveBeenCalledWith({ visited: true });
+  });
+
+  test("should mark the field as touched when it loses focus", () => {
+    const field = new Field({ name: "test" });
+    const focus = vi.fn();
+    const touch = vi.fn();
+    field.on("focus", focus);
+    field.on("touch", touch);
+
+    field.setFocused(true);
+    field.setFocused(false);
+
+    expect(field.isFocused).toBe(false);
+    expect(field.isTouched).toBe(true);
+    expect(focus.mock.calls).toEqual([
+      [{ focused: true }],
+      [{ focused: false }],
+    ]);
+    expect(touch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should only emit when the state changes", () => {
+    const field = new Field({ name: "test" });
+    const touch = vi.fn();
+    field.on("touch", touch);
+
+    field.touch();
+    field.touch();
+    field.setFocused(false);
+
+    expect(touch).toHaveBeenCalledTimes(1);
+  });
+
+  test("should clear touched and visited on reset", () => {
+    const field = new Field({ name: "test" });
+    const touch = vi.fn();
+    field.on("touch", touch);
+
+    field.touch();
+    field.reset();
+
+    expect(field.isTouched).toBe(false);
+    expect(field.isVisited).toBe(false);
+    expect(touch).toHaveBeenLastCalledWith({ touched: false });
+  });
+});
+
+describe("Field upload progress", () => {
+  const file = new File(["abc"], "a.txt");
+
+  test("should record progress per file", () => {
+    const field = new Field<string, File[]>({ name: "files", value: [file] });
+    const listener = vi.fn();
+    field.on("progress", listener);
+
+    field.setProgress({ file, loaded: 1, total: 3, status: "uploading" });
+
+    expect(field.progress).toEqual([
+      { file, loaded: 1, total: 3, status: "uploading" },
+    ]);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ file, loaded: 1 }),
+    );
+  });
+
+  test("should drop progress of files no longer selected", () => {
+    const field = new Field<string, File[]>({ name: "files", value: [file] });
+
+    field.setProgress({ file, loaded: 3, total: 3, status: "done" });
+    field.setValue([]);
+
+    expect(field.progress).toEqual([]);
+  });
+});
+
+describe("Field conditions", () => {
+  test("should skip validation while inactive", async () => {
+    const field = new Field<string, string>({ name: "vat", required: true });
+
+    field.setHidden(true);
+    expect(await field.validate()).toBe(true);
+    expect(field.errors).toEqual([]);
+
+    field.setHidden(false);
+    expect(await field.validate()).toBe(false);
+  });
+
+  test("should drop errors when becoming inactive", async () => {
+    const field = new Field<string, string>({ name: "vat", required: true });
+    await field.validate();
+    const listener = vi.fn();
+    field.on("validate", listener);
+
+    field.setDisabled(true);
+
+    expect(field.isValid).toBe(true);
+    expect(listener).toHaveBeenCalledWith({ status: "valid" });
+  });
+
+  test("should evaluate the predicates against the form value", () => {
+    const field = new Field<string, string>({
+      name: "vat",
+      when: (values: { type: string }) => values.type === "company",
+      disabled: (values: { type: string }) => values.type === "locked",
+    });
+    const listener = vi.fn();
+    field.on("hide", listener);
+
+    field.applyConditions({ type: "person" });
+    expect(field.isHidden).toBe(true);
+    expect(field.isActive).toBe(false);
+    expect(listener).toHaveBeenCalledWith({ hidden: true });
+
+    field.applyConditions({ type: "company" });
+    expect(field.isActive).toBe(true);
+  });
+
+  test("should clear the value when asked to", () => {
+    const field = new Field<string, string>({
+      name: "vat",
+      value: "DK123",
+      inactive: "clear",
+    });
+
+    field.setDisabled(true);
+
+    expect(field.value).toBeUndefined();
+  });
+});
+
+describe("Field observable values", () => {
+  test("should emit change when a nested model changes", () => {
+    const address = new ObservableObject({ city: "Oslo" }, undefined, {
+      deep: true,
+    });
+    const person = new Model({
+      primaryKey: "id",
+      values: {
+        id: 1,
+        addresses: new ObservableList([address], { deep: true }),
+      },
+      deep: true,
+    });
+    const field = new Field({ name: "person", value: person });
+    const listener = vi.fn();
+    field.on("change", listener);
+
+    address.set("city", "Bergen");
+
+    expect(listener).toHaveBeenCalledWith({ prev: undefined, value: person });
+  });
+
+  test("should stop observing a replaced value", () => {
+    const list = new ObservableList<string>();
+    const field = new Field<string, ObservableList<string>>({
+      name: "tags",
+      value: list,
+    });
+    field.setValue(new ObservableList<string>());
+    const listener = vi.fn();
+    field.on("change", listener);
+
+    list.push("a");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -1,44 +1,122 @@
 import {
+  coalesceChanges,
   EventEmitter,
   type Equality,
+  isDeepObservable,
   isEqual,
-  Model,
   Base,
-  Collection,
 } from "@kildevaeld/model";
-import { type Validation, ValidationError } from "./validator.js";
+import { delay, type Validation, ValidationError } from "./validator.js";
 
 export interface FieldEvents<T> {
   change: { prev: T | undefined; value: T | undefined };
   validate:
     | { status: "valid" }
     | { status: "invalid"; errors: ValidationError[] };
+  validating: { validating: boolean };
+  focus: { focused: boolean };
+  visit: { visited: boolean };
+  touch: { touched: boolean };
+  hide: { hidden: boolean };
+  disable: { disabled: boolean };
+  progress: FileProgress;
   reset: {};
 }
 
-export interface FieldOptions<K, T> {
+/**
+ * Progress of a file upload, see `Field.setProgress`
+ */
+export interface FileProgress {
+  file: File;
+  loaded: number;
+  total: number;
+  status: "uploading" | "done" | "error";
+  error?: Error;
+}
+
+/**
+ * What becomes of the value of a hidden or disabled field: left out of the
+ * form value, cleared, or kept
+ */
+export type InactiveValue = "exclude" | "clear" | "keep";
+
+/**
+ * `V` is the value of the form the field belongs to, which the `when` and
+ * `disabled` predicates are evaluated against
+ */
+export interface FieldOptions<K, T, V = any> {
   name: K;
   value?: T;
   required?: boolean;
+  /**
+   * The value is set by the application only, eg. a computed value. Read-only
+   * fields are never dirty.
+   */
+  readOnly?: boolean;
   validations?: Validation<T>[];
+  /**
+   * Reads the value from the text of a control, see `ParseFormat`
+   */
+  parse?: (text: string) => T | undefined;
+  /**
+   * Writes the value as the text of a control, see `ParseFormat`
+   */
+  format?: (value: T | undefined) => string;
+  /**
+   * Shows the field only when it returns true
+   */
+  when?: (values: V) => boolean;
+  disabled?: boolean | ((values: V) => boolean);
+  /**
+   * Defaults to `exclude`, like the browser leaves disabled controls out of
+   * a form submission
+   */
+  inactive?: InactiveValue;
 }
 
 export class Field<K, T> extends EventEmitter<FieldEvents<T>> {
   #value: T | undefined;
   #name: K;
   #errors: ValidationError[] = [];
+  #externalErrors = new Map<unknown, ValidationError[]>();
   #equal: Equality<T>;
   #validations: Validation<T>[];
   #required: boolean = false;
+  #readOnly: boolean;
+  #abort: AbortController | undefined;
+  #validating = false;
+  #runs = 0;
+  #latest: Promise<boolean> | undefined;
+  #focused = false;
+  #visited = false;
+  #touched = false;
+  #progress = new Map<File, FileProgress>();
+  #hidden = false;
+  #disabled = false;
+  #when: ((values: any) => boolean) | undefined;
+  #disabledWhen: ((values: any) => boolean) | undefined;
   defaultValue: T | undefined;
+  readonly parse: ((text: string) => T | undefined) | undefined;
+  readonly format: ((value: T | undefined) => string) | undefined;
+  readonly inactive: InactiveValue;
 
   constructor(options: FieldOptions<K, T>, equal: Equality<T> = isEqual) {
-    super();
+    super({ coalesce: coalesceChanges(equal) });
     this.#name = options.name;
     this.#equal = equal;
     this.defaultValue = options.value;
     this.#validations = options.validations ?? [];
     this.#required = options.required ?? false;
+    this.#readOnly = options.readOnly ?? false;
+    this.parse = options.parse;
+    this.format = options.format;
+    this.inactive = options.inactive ?? "exclude";
+    this.#when = options.when;
+    if (typeof options.disabled === "function") {
+      this.#disabledWhen = options.disabled;
+    } else {
+      this.#disabled = options.disabled ?? false;
+    }
     this.#setValue(options.value);
   }
 
@@ -47,7 +125,19 @@ export class Field<K, T> extends EventEmitter<FieldEvents<T>> {
   }
 
   get isDirty() {
-    return !this.#equal(this.defaultValue, this.value);
+    return !this.#readOnly && !this.#equal(this.defaultValue, this.value);
+  }
+
+  get isRequired() {
+    return this.#required;
+  }
+
+  get isReadOnly() {
+    return this.#readOnly;
+  }
+
+  get validations(): readonly Validation<T>[] {
+    return this.#validations;
   }
 
   get value(): T | undefined {
@@ -58,9 +148,119 @@ export class Field<K, T> extends EventEmitter<FieldEvents<T>> {
     this.setValue(value);
   }
 
+  /**
+   * Whether the field currently has focus
+   */
+  get isFocused() {
+    return this.#focused;
+  }
+
+  /**
+   * Whether the field has received focus at least once
+   */
+  get isVisited() {
+    return this.#visited;
+  }
+
+  /**
+   * Whether the field has lost focus at least once, or has been marked as
+   * touched with `touch()`
+   */
+  get isTouched() {
+    return this.#touched;
+  }
+
+  /**
+   * Records focus entering or leaving the field. Focusing marks the field as
+   * visited, and leaving it marks it as touched.
+   */
+  setFocused(focused: boolean) {
+    if (this.#focused === focused) return;
+    this.#focused = focused;
+    this.emit("focus", { focused });
+
+    if (focused) {
+      this.#setVisited(true);
+    } else {
+      this.touch();
+    }
+  }
+
+  touch() {
+    this.#setVisited(true);
+    if (!this.#touched) {
+      this.#touched = true;
+      this.emit("touch", { touched: true });
+    }
+  }
+
+  get isHidden() {
+    return this.#hidden;
+  }
+
+  get isDisabled() {
+    return this.#disabled;
+  }
+
+  /**
+   * Whether the field is neither hidden nor disabled. Inactive fields are
+   * always valid and skip validation.
+   */
+  get isActive() {
+    return !this.#hidden && !this.#disabled;
+  }
+
+  setHidden(hidden: boolean) {
+    if (this.#hidden === hidden) return;
+    const active = this.isActive;
+    this.#hidden = hidden;
+    this.emit("hide", { hidden });
+    this.#onActiveChange(active);
+  }
+
+  setDisabled(disabled: boolean) {
+    if (this.#disabled === disabled) return;
+    const active = this.isActive;
+    this.#disabled = disabled;
+    this.emit("disable", { disabled });
+    this.#onActiveChange(active);
+  }
+
+  /**
+   * Evaluates the `when` and `disabled` predicates against `values`, the
+   * value of the form
+   */
+  applyConditions(values: unknown) {
+    if (this.#when) this.setHidden(!this.#when(values));
+    if (this.#disabledWhen) this.setDisabled(this.#disabledWhen(values));
+  }
+
+  /**
+   * Progress of the uploads of the files held by the field
+   */
+  get progress(): FileProgress[] {
+    return Array.from(this.#progress.values());
+  }
+
+  /**
+   * Records the upload progress of `progress.file`. Progress is dropped when
+   * the file is no longer part of the value.
+   */
+  setProgress(progress: FileProgress) {
+    this.#progress.set(progress.file, { ...progress });
+    this.emit("progress", { ...progress });
+  }
+
   reset() {
     const ret = this.setValue(this.defaultValue);
     this.#errors.length = 0;
+    this.#externalErrors.clear();
+    this.#progress.clear();
+    this.#setVisited(this.#focused);
+    if (this.#touched) {
+      this.#touched = false;
+      this.emit("touch", { touched: false });
+    }
     this.emit("reset", {});
     return ret;
   }
@@ -68,7 +268,9 @@ export class Field<K, T> extends EventEmitter<FieldEvents<T>> {
   setValue(value: T | undefined) {
     const prev = this.#value;
     if (this.#setValue(value)) {
+      this.#cancel();
       this.#errors.length = 0;
+      this.#pruneProgress();
       this.emit("change", { prev, value });
       return true;
     } else {
@@ -77,58 +279,176 @@ export class Field<K, T> extends EventEmitter<FieldEvents<T>> {
   }
 
   get errors() {
-    return this.#errors.slice();
+    if (!this.isActive) return [];
+    const errors = this.#errors.slice();
+    for (const external of this.#externalErrors.values()) {
+      errors.push(...external);
+    }
+    return errors;
   }
 
   get isValid() {
-    return this.#errors.length == 0;
+    return this.errors.length == 0;
   }
 
-  async validate(trigger = true) {
-    this.#errors.length = 0;
+  /**
+   * Whether an asynchronous validation is in flight
+   */
+  get isValidating() {
+    return this.#validating;
+  }
+
+  /**
+   * Sets the errors reported for this field by `source`, eg. a form level
+   * validation. They are kept apart from the field's own validations, so
+   * `validate()` does not clear them; the source replaces them instead.
+   */
+  setExternalErrors(source: unknown, errors: ValidationError[]) {
+    const prev = this.#externalErrors.get(source) ?? [];
+    if (!errors.length && !prev.length) return;
+
+    if (errors.length) {
+      this.#externalErrors.set(source, errors.slice());
+    } else {
+      this.#externalErrors.delete(source);
+    }
+
+    this.#emitValidate();
+  }
+
+  /**
+   * Validates the current value. A newer call, or a change of value, aborts
+   * a validation in flight; its result is then discarded and the promise
+   * settles with the result of the newest validation instead.
+   */
+  validate(trigger = true): Promise<boolean> {
+    const run = this.#validate(++this.#runs, trigger);
+    this.#latest = run;
+    return run;
+  }
 
-    if (this.#value == undefined || this.#value == "") {
+  async #validate(run: number, trigger: boolean) {
+    this.#abort?.abort();
+    this.#abort = undefined;
+
+    const errors: ValidationError[] = [];
+    const value = this.#value;
+
+    if (!this.isActive) {
+      this.#setValidating(false);
+      this.#errors = errors;
+      if (trigger) this.#emitValidate();
+      return true;
+    }
+
+    if (value == undefined || value == "") {
       if (this.#required) {
-        this.#errors.push(new ValidationError("Required"));
+        errors.push(new ValidationError("Required"));
       }
-    } else {
-      for (const validation of this.#validations) {
-        try {
-          await validation.validate(this.#value);
-        } catch (e) {
-          if (e instanceof ValidationError) {
-            this.#errors.push(e);
-          } else {
-            throw e;
+    } else if (this.#validations.length) {
+      const abort = new AbortController();
+      this.#abort = abort;
+      this.#setValidating(true);
+
+      try {
+        for (const validation of this.#validations) {
+          if (validation.debounce) {
+            await delay(validation.debounce, abort.signal);
           }
+          if (abort.signal.aborted) break;
+
+          try {
+            await validation.validate(value, abort.signal);
+          } catch (e) {
+            if (e instanceof ValidationError) {
+              errors.push(e);
+            } else if (!abort.signal.aborted) {
+              throw e;
+            }
+          }
+        }
+      } finally {
+        if (this.#abort === abort) {
+          this.#abort = undefined;
+          this.#setValidating(false);
         }
       }
+
+      if (abort.signal.aborted) {
+        // Superseded by a newer validation, or the value changed and the
+        // new value has not been validated yet
+        if (run !== this.#runs && this.#latest) return this.#latest;
+        return this.validate(trigger);
+      }
+    }
+
+    this.#setValidating(false);
+    this.#errors = errors;
+
+    if (trigger) this.#emitValidate();
+
+    return this.isValid;
+  }
+
+  #onActiveChange(wasActive: boolean) {
+    if (wasActive === this.isActive) return;
+    if (!this.isActive) {
+      this.#cancel();
+      this.#errors = [];
+      if (this.inactive === "clear") this.setValue(undefined);
+    }
+    this.#emitValidate();
+  }
+
+  #cancel() {
+    if (this.#abort) {
+      this.#abort.abort();
+      this.#abort = undefined;
+      this.#setValidating(false);
+    }
+  }
+
+  #setValidating(validating: boolean) {
+    if (this.#validating !== validating) {
+      this.#validating = validating;
+      this.emit("validating", { validating });
+    }
+  }
+
+  #pruneProgress() {
+    if (!this.#progress.size) return;
+    const files = new Set(Array.isArray(this.#value) ? this.#value : []);
+    for (const file of this.#progress.keys()) {
+      if (!files.has(file)) this.#progress.delete(file);
     }
+  }
 
-    if (trigger)
-      this.emit(
-        "validate",
-        this.#errors.length
-          ? { status: "invalid", errors: this.#errors.slice() }
-          : { status: "valid" },
-      );
+  #setVisited(visited: boolean) {
+    if (this.#visited !== visited) {
+      this.#visited = visited;
+      this.emit("visit", { visited });
+    }
+  }
 
-    return !this.#errors.length;
+  #emitValidate() {
+    const errors = this.errors;
+    this.emit(
+      "validate",
+      errors.length ? { status: "invalid", errors } : { status: "valid" },
+    );
   }
 
   #setValue(value: T | undefined) {
     const equal = this.#equal(this.#value, value);
 
-    if (this.#value && this.#value instanceof Model) {
-      this.#value.off("change", this.#onValueChange);
-    } else if (this.#value && this.#value instanceof Collection) {
-      this.#value.off("change", this.#onValueChange);
+    // Models and lists are observed through their deep changes, which covers
+    // nested observables when they are deep
+    if (isDeepObservable(this.#value)) {
+      this.#value.off("deepChange", this.#onValueChange);
     }
 
-    if (value && value instanceof Model) {
-      value.on("change", this.#onValueChange);
-    } else if (value && value instanceof Collection) {
-      value.on("change", this.#onValueChange);
+    if (isDeepObservable(value)) {
+      value.on("deepChange", this.#onValueChange);
     }
 
     this.#value = value;
@@ -1,6 +1,10 @@
 import { describe, test, expect, beforeEach, vi } from "vitest";
 import { Form } from "./form";
-import { ValidationError } from "./validator";
+import {
+  type FormValidation,
+  SubmissionError,
+  ValidationError,
+} from "./validator";
 
 interface TestFormFields {
   username: string;
@@ -347,6 +351,84 @@ describe("Form", () => {
 
       expect(form.submitError).toBeUndefined();
     });
+
+    test("should not submit an invalid form", async () => {
+      const form = new Form<TestFormFields>({
+        fields: { username: { required: true } },
+      });
+
+      const submitFn = vi.fn();
+      const ok = await form.submit(submitFn);
+
+      expect(ok).toBe(false);
+      expect(submitFn).not.toHaveBeenCalled();
+      expect(form.submitError).toBeInstanceOf(ValidationError);
+      expect(form.field("username").errors).toHaveLength(1);
+    });
+
+    test("should set submitError when validation fails to run", async () => {
+      const error = new Error("Network down");
+      const form = new Form<TestFormFields>({
+        defaultValues: { username: "john" },
+        fields: {
+          username: {
+            validations: [
+              {
+                validate: async () => {
+                  throw error;
+                },
+              },
+            ],
+          },
+        },
+      });
+
+      const submitFn = vi.fn();
+      const ok = await form.submit(submitFn);
+
+      expect(ok).toBe(false);
+      expect(submitFn).not.toHaveBeenCalled();
+      expect(form.submitError).toBe(error);
+      expect(form.status).toBe("idle");
+    });
+
+    test("should submit an invalid form with submitOnError", async () => {
+      const form = new Form<TestFormFields>({
+        fields: { username: { required: true } },
+        submitOnError: true,
+      });
+
+      const submitFn = vi.fn();
+      const ok = await form.submit(submitFn);
+
+      expect(ok).toBe(true);
+      expect(submitFn).toHaveBeenCalled();
+      expect(form.isValid).toBe(false);
+    });
+
+    test("should track submit state", async () => {
+      const form = new Form<TestFormFields>({
+        defaultValues: { username: "john" },
+      });
+
+      expect(form.isSubmitted).toBe(false);
+      expect(form.submitCount).toBe(0);
+
+      await form.submit(async () => {
+        throw new Error("Submit failed");
+      });
+      expect(form.isSubmitted).toBe(true);
+      expect(form.isSubmitSuccessful).toBe(false);
+
+      await form.submit(async () => {});
+      expect(form.submitCount).toBe(2);
+      expect(form.isSubmitSuccessful).toBe(true);
+
+      form.reset();
+      expect(form.isSubmitted).toBe(false);
+      expect(form.submitCount).toBe(0);
+      expect(form.isSubmitSuccessful).toBe(false);
+    });
   });
 
   describe("reset", () => {
@@ -633,3 +715,855 @@ describe("Form", () => {
     });
   });
 });
+
+describe("Form nested paths", () => {
+  interface Order {
+    name: string;
+    address: { street: string; city: string };
+    items: { qty: number; sku: string }[];
+  }
+
+  test("should create fields for nested paths", () => {
+    const form = new Form<Order>({
+      defaultValues: {
+        address: { street: "Main", city: "Aarhus" },
+        items: [{ qty: 1, sku: "a" }],
+      },
+      fields: {
+        "address.street": { required: true },
+        "items[0].qty": { required: true },
+      },
+    });
+
+    expect(form.field("address.street").value).toBe("Main");
+    expect(form.field("address.city").value).toBe("Aarhus");
+    expect(form.field("items[0].qty").value).toBe(1);
+  });
+
+  test("should normalize dot indexes to bracket notation", () => {
+    const form = new Form<Order>({
+      defaultValues: { items: [{ qty: 1, sku: "a" }] },
+    });
+
+    const field = form.field("items[0].qty");
+    expect(field.name).toBe("items[0].qty");
+    expect(form.field("items.0.qty" as "items[0].qty")).toBe(field);
+  });
+
+  test("should rebuild nested object in toJSON", () => {
+    const form = new Form<Order>({
+      defaultValues: {
+        name: "order",
+        address: { street: "Main", city: "Aarhus" },
+      },
+      fields: {
+        "address.street": {},
+      },
+    });
+
+    form.array("items");
+    form.field("address.street").value = "Side";
+    form.field("items[1].qty").value = 3;
+
+    expect(form.toJSON()).toEqual({
+      name: "order",
+      address: { street: "Side", city: "Aarhus" },
+      items: [undefined, { qty: 3 }],
+    });
+  });
+
+  test("should keep numeric keys of objects in toJSON", () => {
+    interface Stats {
+      years: Record<string, number>;
+    }
+
+    const form = new Form<Stats>({
+      fields: { "years.2024": { value: 5 } },
+    });
+
+    expect(form.toJSON()).toEqual({ years: { 2024: 5 } });
+  });
+
+  test("should start nested fields from their ancestor's value", () => {
+    const form = new Form<Order>({
+      defaultValues: { address: { street: "Main", city: "Aarhus" } },
+    });
+
+    form.field("address").value = { street: "Side", city: "Aarhus" };
+    const street = form.field("address.street");
+
+    expect(street.value).toBe("Side");
+    expect(street.defaultValue).toBe("Main");
+    expect(form.toJSON().address).toEqual({ street: "Side", city: "Aarhus" });
+  });
+
+  test("should emit change and validate events per path", async () => {
+    const form = new Form<Order>({
+      fields: { "address.street": { required: true } },
+    });
+    const changes: unknown[] = [];
+    const validations: unknown[] = [];
+
+    form.on("change:address.street", (e) => changes.push(e.value));
+    form.on("validate:address.street", (e) => validations.push(e.status));
+
+    form.field("address.street").value = "Main";
+    form.field("address.street").value = "";
+    await form.validate();
+
+    expect(changes).toEqual(["Main", ""]);
+    expect(validations).toEqual(["invalid"]);
+    expect(form.validationErrors["address.street"]).toHaveLength(1);
+  });
+
+  test("should reset nested fields to new default values", () => {
+    const form = new Form<Order>({
+      fields: { "address.street": {} },
+    });
+
+    form.reset({ address: { street: "Main", city: "Aarhus" } });
+
+    expect(form.field("address.street").value).toBe("Main");
+    expect(form.field("address.city").value).toBe("Aarhus");
+  });
+});
+
+describe("Form validations", () => {
+  interface Signup {
+    password: string;
+    confirm: string;
+    phone: string;
+    email: string;
+  }
+
+  const matches = {
+    dependencies: ["password", "confirm"],
+    async validate(values: Signup) {
+      if (values.password !== values.confirm) {
+        return { fields: { confirm: "Passwords must match" } };
+      }
+    },
+  } satisfies FormValidation<Signup>;
+
+  test("should attach errors to named fields", async () => {
+    const form = new Form<Signup>({
+      defaultValues: { password: "a", confirm: "b" },
+      validations: [matches],
+    });
+
+    expect(await form.validate()).toBe(false);
+    expect(form.field("confirm").errors[0].message).toBe(
+      "Passwords must match",
+    );
+    expect(form.validationErrors.confirm).toHaveLength(1);
+    expect(form.isValid).toBe(false);
+  });
+
+  test("should attach errors to the form", async () => {
+    const form = new Form<Signup>({
+      defaultValues: { phone: "", email: "" },
+      validations: [
+        {
+          async validate(values) {
+            if (!values.phone && !values.email) {
+              throw new ValidationError("Phone or email is required");
+            }
+          },
+        },
+      ],
+    });
+    const listener = vi.fn();
+    form.on("formValidate", listener);
+
+    expect(await form.validate()).toBe(false);
+    expect(form.formErrors[0].message).toBe("Phone or email is required");
+    expect(listener).toHaveBeenCalledWith({
+      status: "invalid",
+      errors: form.formErrors,
+    });
+  });
+
+  test("should re-run when a dependency changes", async () => {
+    const form = new Form<Signup>({
+      defaultValues: { password: "a", confirm: "b" },
+      validations: [matches],
+    });
+
+    await form.validate();
+    form.field("confirm").value = "a";
+    await Promise.resolve();
+
+    expect(form.field("confirm").isValid).toBe(true);
+    expect(form.validationErrors.confirm).toBeUndefined();
+    expect(form.isValid).toBe(true);
+  });
+
+  test("should not run on changes before the first validation", async () => {
+    const validate = vi.fn(async () => {});
+    const form = new Form<Signup>({
+      validations: [{ dependencies: ["password"], validate }],
+    });
+
+    form.field("password").value = "secret";
+
+    expect(validate).not.toHaveBeenCalled();
+  });
+
+  test("should report failures of reruns as form errors", async () => {
+    let fail = false;
+    const form = new Form<Signup>({
+      validations: [
+        {
+          dependencies: ["password"],
+          async validate() {
+            if (fail) throw new Error("Network down");
+          },
+        },
+      ],
+    });
+
+    await form.validate();
+    fail = true;
+    form.field("password").value = "secret";
+
+    await vi.waitFor(() =>
+      expect(form.formErrors.map((e) => e.message)).toEqual(["Network down"]),
+    );
+  });
+
+  test("should ignore stale results", async () => {
+    const resolvers: (() => void)[] = [];
+    const form = new Form<Signup>({
+      defaultValues: { password: "a", confirm: "b" },
+      validations: [
+        {
+          dependencies: ["confirm"],
+          validate(values) {
+            const result = values.password !== values.confirm;
+            return new Promise((resolve) =>
+              resolvers.push(() =>
+                resolve(result ? { form: "Mismatch" } : undefined),
+              ),
+            );
+          },
+        },
+      ],
+    });
+
+    const validated = form.validate();
+    await vi.waitFor(() => expect(resolvers).toHaveLength(1));
+    resolvers[0]();
+    await validated;
+    expect(form.formErrors).toHaveLength(1);
+
+    form.field("confirm").value = "c";
+    form.field("confirm").value = "a";
+    resolvers[2]();
+    await Promise.resolve();
+    resolvers[1]();
+    await Promise.resolve();
+
+    expect(form.formErrors).toHaveLength(0);
+  });
+
+  test("should clear errors on reset", async () => {
+    const form = new Form<Signup>({
+      defaultValues: { password: "a", confirm: "b" },
+      validations: [matches],
+    });
+
+    await form.validate();
+    form.reset();
+
+    expect(form.field("confirm").isValid).toBe(true);
+    expect(form.isValid).toBe(true);
+  });
+});
+
+describe("Form interaction", () => {
+  test("should aggregate touched fields", () => {
+    const form = new Form<TestFormFields>({
+      defaultValues: { username: "", email: "" },
+    });
+
+    expect(form.isTouched).toBe(false);
+
+    form.field("email").setFocused(true);
+    form.field("email").setFocused(false);
+
+    expect(form.isTouched).toBe(true);
+    expect(form.touchedFields).toEqual(["email"]);
+  });
+
+  test("should emit touch events with the field name", () => {
+    const form = new Form<TestFormFields>({});
+    const listener = vi.fn();
+    form.on("touch", listener);
+
+    form.field("username").touch();
+
+    expect(listener).toHaveBeenCalledWith({ name: "username", touched: true });
+  });
+
+  test("should mark an array as touched when an item is touched", () => {
+    const form = new Form<{ tags: string[] }>({
+      defaultValues: { tags: ["a", "b"] },
+    });
+
+    form.array("tags").at(1)!.touch();
+
+    expect(form.touchedFields).toEqual(["tags"]);
+  });
+
+  test("should clear touched fields on reset", () => {
+    const form = new Form<TestFormFields>({
+      defaultValues: { username: "" },
+    });
+
+    form.field("username").touch();
+    form.reset();
+
+    expect(form.touchedFields).toEqual([]);
+  });
+});
+
+describe("Form server errors", () => {
+  interface Order {
+    email: string;
+    items: { qty: number }[];
+  }
+
+  test("should set errors on fields and the form", () => {
+    const form = new Form<Order>({ defaultValues: { email: "a@b.c" } });
+    const listener = vi.fn();
+    form.on("validate:email", listener);
+
+    form.setErrors({ email: "Already taken" }, "Try again");
+
+    expect(form.field("email").errors.map((e) => e.message)).toEqual([
+      "Already taken",
+    ]);
+    expect(form.formErrors.map((e) => e.message)).toEqual(["Try again"]);
+    expect(form.isValid).toBe(false);
+    expect(listener).toHaveBeenCalledWith({
+      status: "invalid",
+      errors: [expect.any(ValidationError)],
+    });
+  });
+
+  test("should replace earlier errors", () => {
+    const form = new Form<Order>({ defaultValues: { email: "a@b.c" } });
+
+    form.setErrors({ email: "Already taken" });
+    form.setErrors({}, "Try again");
+
+    expect(form.field("email").isValid).toBe(true);
+    expect(form.formErrors).toHaveLength(1);
+  });
+
+  test("should set errors for a single field", () => {
+    const form = new Form<Order>({ defaultValues: { email: "a@b.c" } });
+
+    form.setFieldError("email", ["Already taken", "Blocked"]);
+    expect(form.field("email").errors).toHaveLength(2);
+
+    form.setFieldError("email", []);
+    expect(form.field("email").isValid).toBe(true);
+  });
+
+  test("should clear field errors when the value changes", () => {
+    const form = new Form<Order>({ defaultValues: { email: "a@b.c" } });
+
+    form.setErrors({ email: "Already taken" });
+    form.field("email").setValue("b@b.c");
+
+    expect(form.field("email").isValid).toBe(true);
+  });
+
+  test("should clear errors on reset", () => {
+    const form = new Form<Order>({ defaultValues: { email: "a@b.c" } });
+
+    form.setErrors({ email: "Already taken" }, "Try again");
+    form.reset();
+
+    expect(form.isValid).toBe(true);
+    expect(form.formErrors).toHaveLength(0);
+  });
+
+  test("should distribute errors from a SubmissionError", async () => {
+    const form = new Form<Order>({
+      defaultValues: { email: "a@b.c", items: [{ qty: 0 }] },
+    });
+
+    const ok = await form.submit(() => {
+      throw new SubmissionError<Order>({
+        fields: { email: "Already taken", "items[0].qty": "Out of stock" },
+        form: "Order rejected",
+      });
+    });
+
+    expect(ok).toBe(false);
+    expect(form.submitError).toBeInstanceOf(SubmissionError);
+    expect(form.field("email").errors[0].message).toBe("Already taken");
+    expect(form.field("items").errors[0].message).toBe("Out of stock");
+    expect(form.formErrors[0].message).toBe("Order rejected");
+  });
+
+  test("should attach errors below a field to that field", () => {
+    const form = new Form<Order>({ defaultValues: { items: [{ qty: 0 }] } });
+    form.field("items").value = [{ qty: 2 }];
+
+    form.setErrors({ "items[0].qty": "Out of stock", "items[1].qty": "Gone" });
+
+    expect(form.field("items").errors.map((e) => e.message)).toEqual([
+      "Out of stock",
+      "Gone",
+    ]);
+    expect(form.toJSON().items).toEqual([{ qty: 2 }]);
+
+    form.setErrors({});
+    expect(form.field("items").errors).toEqual([]);
+  });
+
+  test("should clear errors when submitting again", async () => {
+    const form = new Form<Order>({ defaultValues: { email: "a@b.c" } });
+
+    await form.submit(() => {
+      throw new SubmissionError<Order>({ form: "Order rejected" });
+    });
+    const ok = await form.submit(() => {});
+
+    expect(ok).toBe(true);
+    expect(form.formErrors).toHaveLength(0);
+  });
+});
+
+describe("Form conditional fields", () => {
+  interface Customer {
+    type: "person" | "company";
+    vat: string;
+    note: string;
+  }
+
+  const create = (inactive?: "exclude" | "clear" | "keep") =>
+    new Form<Customer>({
+      defaultValues: { type: "person", vat: "DK123", note: "" },
+      fields: {
+        vat: {
+          required: true,
+          when: (values) => values.type === "company",
+          inactive,
+        },
+        note: { disabled: true },
+      },
+    });
+
+  test("should evaluate conditions on construction", () => {
+    const form = create();
+
+    expect(form.field("vat").isHidden).toBe(true);
+    expect(form.field("note").isDisabled).toBe(true);
+  });
+
+  test("should re-evaluate conditions when values change", () => {
+    const form = create();
+
+    form.field("type").setValue("company");
+
+    expect(form.field("vat").isActive).toBe(true);
+  });
+
+  test("should skip inactive fields in validation", async () => {
+    const form = create();
+    form.field("vat").setValue("");
+
+    expect(await form.validate()).toBe(true);
+
+    form.field("type").setValue("company");
+    expect(await form.validate()).toBe(false);
+  });
+
+  test("should leave inactive fields out of the value", () => {
+    expect(create().toJSON()).toEqual({ type: "person" });
+  });
+
+  test("should keep inactive fields when asked to", () => {
+    expect(create("keep").toJSON()).toEqual({ type: "person", vat: "DK123" });
+  });
+
+  test("should clear inactive fields when asked to", () => {
+    const form = create("clear");
+    expect(form.toJSON()).toEqual({ type: "person", vat: undefined });
+
+    form.field("type").setValue("company");
+    form.field("vat").setValue("DK456");
+    form.field("type").setValue("person");
+
+    expect(form.field("vat").value).toBeUndefined();
+  });
+});
+
+describe("Form computed fields", () => {
+  interface Order {
+    qty: number;
+    price: number;
+    total: number;
+    label: string;
+  }
+
+  const total = {
+    dependencies: ["qty", "price"] as ("qty" | "price")[],
+    compute: (values: Partial<Order>) =>
+      (values.qty ?? 0) * (values.price ?? 0),
+  };
+
+  test("should compute the value on construction", () => {
+    const form = new Form<Order>({
+      defaultValues: { qty: 2, price: 5 },
+      computed: { total },
+    });
+
+    expect(form.toJSON()).toEqual({ qty: 2, price: 5, total: 10 });
+    expect(form.field("total").isReadOnly).toBe(true);
+    expect(form.isDirty).toBe(false);
+  });
+
+  test("should recompute when a dependency changes", () => {
+    const form = new Form<Order>({
+      defaultValues: { qty: 2, price: 5 },
+      computed: { total },
+    });
+    const listener = vi.fn();
+    form.on("change:total", listener);
+
+    form.field("qty").setValue(3);
+
+    expect(form.field("total").value).toBe(15);
+    expect(listener).toHaveBeenCalledWith({ prev: 10, value: 15 });
+  });
+
+  test("should keep computed values on reset and clear", () => {
+    const form = new Form<Order>({
+      defaultValues: { qty: 2, price: 5 },
+      computed: { total },
+    });
+
+    form.field("qty").setValue(3);
+    form.reset();
+    expect(form.field("total").value).toBe(10);
+
+    form.clear();
+    expect(form.field("total").value).toBe(0);
+  });
+
+  test("should apply only the latest async computation", async () => {
+    const signals: AbortSignal[] = [];
+    const form = new Form<Order>({
+      defaultValues: { qty: 1 },
+      computed: {
+        label: {
+          dependencies: ["qty"],
+          compute: async (values, signal) => {
+            signals.push(signal);
+            await Promise.resolve();
+            return `${values.qty} items`;
+          },
+        },
+      },
+    });
+
+    form.field("qty").setValue(2);
+    form.field("qty").setValue(3);
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(form.field("label").value).toBe("3 items");
+    expect(signals.map((signal) => signal.aborted)).toEqual([
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  test("should set validation errors on the computed field", () => {
+    const form = new Form<Order>({
+      defaultValues: { qty: -1 },
+      computed: {
+        label: {
+          dependencies: ["qty"],
+          compute: (values) => {
+            if (values.qty! < 0) throw new ValidationError("Negative");
+            return `${values.qty} items`;
+          },
+        },
+      },
+    });
+
+    expect(form.field("label").errors[0].message).toBe("Negative");
+
+    form.field("qty").setValue(1);
+    expect(form.field("label").isValid).toBe(true);
+    expect(form.field("label").value).toBe("1 items");
+  });
+
+  test("should set errors of failing async computations", async () => {
+    const form = new Form<Order>({
+      defaultValues: { qty: 1 },
+      computed: {
+        label: {
+          dependencies: ["qty"],
+          compute: async () => {
+            throw new Error("Rates unavailable");
+          },
+        },
+      },
+    });
+
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(form.field("label").errors[0].message).toBe("Rates unavailable");
+  });
+
+  test("should recompute when fields above or below a dependency change", () => {
+    interface Shipment {
+      address: { country: string; city: string };
+      label: string;
+    }
+
+    const compute = vi.fn(
+      (values: Partial<Shipment>) => values.address?.country ?? "",
+    );
+    const form = new Form<Shipment>({
+      defaultValues: { address: { country: "DK", city: "Aarhus" } },
+      computed: { label: { dependencies: ["address"], compute } },
+    });
+    const country = new Form<Shipment>({
+      defaultValues: { address: { country: "DK", city: "Aarhus" } },
+      computed: {
+        label: { dependencies: ["address.country"], compute },
+      },
+    });
+
+    form.field("address.country").setValue("SE");
+    expect(form.field("label").value).toBe("SE");
+
+    country.field("address").setValue({ country: "NO", city: "Oslo" });
+    expect(country.field("label").value).toBe("NO");
+  });
+});
+
+describe("Form subscriptions", () => {
+  test("should watch the given fields", () => {
+    const form = new Form<TestFormFields>({
+      defaultValues: { username: "john", email: "john@example.com" },
+    });
+    const listener = vi.fn();
+    form.watch(["username", "age"], listener);
+
+    form.field("email").setValue("jane@example.com");
+    expect(listener).not.toHaveBeenCalled();
+
+    form.field("age").setValue(30);
+    expect(listener).toHaveBeenCalledWith(["john", 30], ["john", undefined]);
+  });
+
+  test("should notify once for reset", () => {
+    const form = new Form<TestFormFields>({
+      defaultValues: { username: "john", email: "john@example.com" },
+    });
+    form.field("username").setValue("jane");
+    form.field("email").setValue("jane@example.com");
+    const listener = vi.fn();
+    form.watch(["username", "email"], listener);
+
+    form.reset();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      ["john", "john@example.com"],
+      ["jane", "jane@example.com"],
+    );
+  });
+
+  test("should only notify when the selection changes", () => {
+    const form = new Form<TestFormFields>({ defaultValues: { age: 17 } });
+    const listener = vi.fn();
+    form.subscribe((values) => values.age >= 18, listener);
+
+    form.field("age").setValue(16);
+    expect(listener).not.toHaveBeenCalled();
+
+    form.field("age").setValue(18);
+    expect(listener).toHaveBeenCalledWith(true, false);
+  });
+
+  test("should use the given equality", () => {
+    const form = new Form<TestFormFields>({ defaultValues: { username: "a" } });
+    const listener = vi.fn();
+    form.subscribe((values) => ({ name: values.username }), listener, {
+      equality: (a, b) => a === b,
+    });
+
+    form.field("email").setValue("a@example.com");
+
+    expect(listener).toHaveBeenCalledWith({ name: "a" }, { name: "a" });
+  });
+
+  test("should notify for changes made while validating", async () => {
+    const form = new Form<TestFormFields>({
+      defaultValues: { username: "john" },
+      fields: {
+        username: {
+          validations: [
+            {
+              validate: async () => {
+                form.field("email").setValue("john@example.com");
+              },
+            },
+          ],
+        },
+      },
+    });
+    const listener = vi.fn();
+    form.watch(["email"], listener);
+
+    await form.validate();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test("should stop notifying when unsubscribed", () => {
+    const form = new Form<TestFormFields>({});
+    const listener = vi.fn();
+    const unsubscribe = form.watch(["username"], listener);
+    unsubscribe();
+
+    form.field("username").setValue("john");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe("Form transactions", () => {
+  test("should emit a single change for reset", () => {
+    const form = new Form<TestFormFields>({
+      defaultValues: { username: "john", email: "john@example.com" },
+    });
+    form.field("username").setValue("jane");
+    form.field("email").setValue("jane@example.com");
+    const listener = vi.fn();
+    form.on("change", listener);
+
+    form.reset();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ names: ["username", "email"] });
+  });
+
+  test("should defer notifications until the transaction ends", () => {
+    const form = new Form<TestFormFields>({});
+    const listener = vi.fn();
+    const usernameListener = vi.fn();
+    form.on("change", listener);
+    form.on("change:username", usernameListener);
+
+    form.transaction(() => {
+      form.field("username").setValue("j");
+      form.field("age").setValue(30);
+      form.field("username").setValue("john");
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    expect(usernameListener).toHaveBeenCalledTimes(1);
+    expect(usernameListener).toHaveBeenCalledWith({
+      prev: undefined,
+      value: "john",
+    });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ names: ["username", "age"] });
+  });
+
+  test("should include computed fields in the change", () => {
+    const form = new Form<TestFormFields>({
+      defaultValues: { username: "john" },
+      computed: {
+        email: {
+          dependencies: ["username"],
+          compute: (values) => `${values.username}@example.com`,
+        },
+      },
+    });
+    const listener = vi.fn();
+    form.on("change", listener);
+
+    form.field("username").setValue("jane");
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ names: ["username", "email"] });
+  });
+
+  test("should keep field arrays in sync", () => {
+    const form = new Form<{ tags: string[] }>({
+      fields: { tags: { item: {} } },
+    });
+    const listener = vi.fn();
+    form.on("change:tags", listener);
+
+    form.transaction(() => {
+      form.array("tags").append("a", "b");
+      form.array("tags").remove(0);
+    });
+
+    expect(form.toJSON()).toEqual({ tags: ["b"] });
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("Form diff", () => {
+  test("should return a patch of the changes", () => {
+    const form = new Form<TestFormFields>({
+      defaultValues: { username: "john", email: "john@example.com" },
+    });
+
+    form.field("username").setValue("jane");
+    form.field("email").setValue(undefined as any);
+    form.field("age").setValue(30);
+
+    expect(form.diff()).toEqual([
+      { op: "remove", path: "/email" },
+      { op: "replace", path: "/username", value: "jane" },
+      { op: "add", path: "/age", value: 30 },
+    ]);
+  });
+
+  test("should be empty for a pristine form", () => {
+    const form = new Form<{ items: { qty: number }[] }>({
+      defaultValues: { items: [{ qty: 1 }] },
+      fields: { items: { item: {} } },
+    });
+
+    expect(form.diff()).toEqual([]);
+
+    form.array("items").at(0)!.setValue({ qty: 2 });
+    expect(form.diff()).toEqual([
+      { op: "replace", path: "/items/0/qty", value: 2 },
+    ]);
+  });
+
+  test("should leave out computed fields", () => {
+    const form = new Form<TestFormFields>({
+      defaultValues: { username: "john" },
+      computed: {
+        email: {
+          dependencies: ["username"],
+          compute: (values) => `${values.username}@example.com`,
+        },
+      },
+    });
+
+    form.field("username").setValue("jane");
+
+    expect(form.diff()).toEqual([
+      { op: "replace", path: "/username", value: "jane" },
+    ]);
+  });
+});
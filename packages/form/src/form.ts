@@ -1,16 +1,57 @@
-import { type Equality, EventEmitter, isEqual } from "@kildevaeld/model";
+import {
+  batch,
+  diff,
+  type Equality,
+  EventEmitter,
+  isEqual,
+  type ModelData,
+  type ModelDefinition,
+  type ModelFields,
+  type Patch,
+  type Subscription,
+} from "@kildevaeld/model";
+import {
+  type ArrayItem,
+  FieldArray,
+  type FieldArrayOptions,
+  type FieldItemOptions,
+} from "./array.js";
 import { Field, type FieldOptions } from "./field.js";
-import { ValidationError } from "./validator.js";
+import {
+  type FormValidation,
+  type FormValidationResult,
+  SubmissionError,
+  toValidationErrors,
+  ValidationError,
+  type ValidationMessages,
+} from "./validator.js";
+import {
+  SchemaValidation,
+  type StandardSchemaV1,
+  issuePath,
+  toValidationResult,
+} from "./schema.js";
+import { type ModelFormOptions, modelFormOptions } from "./model.js";
+import {
+  formatPath,
+  getIn,
+  isPathPrefix,
+  parsePath,
+  setIn,
+  type Path,
+  type PathSegment,
+  type PathValue,
+} from "./path.js";
 
 type MapFieldChange<T> = {
-  [K in keyof T as K extends string ? `change:${K}` : never]: {
-    prev: T[K] | undefined;
-    value: T[K] | undefined;
+  [P in Path<T> as `change:${P}`]: {
+    prev: PathValue<T, P> | undefined;
+    value: PathValue<T, P> | undefined;
   };
 };
 
 type MapFieldValidate<T> = {
-  [K in keyof T as K extends string ? `validate:${K}` : never]:
+  [P in Path<T> as `validate:${P}`]:
     | {
         status: "valid";
       }
@@ -28,10 +69,23 @@ export type FormStatus =
 
 export type FormEvents<T> = MapFieldChange<T> &
   MapFieldValidate<T> & {
-    change: {};
+    /**
+     * Emitted once per change, or once per batch of changes, with the paths
+     * of the fields which changed
+     */
+    change: { names: Path<T>[] };
+    /**
+     * Emitted with every `change:<name>`, for listeners interested in all
+     * fields
+     */
+    fieldChange: { name: Path<T>; prev: unknown; value: unknown };
     validate:
       | { status: "valid" }
-      | { status: "invalid"; errors: { [K in keyof T]?: ValidationError[] } };
+      | { status: "invalid"; errors: FormErrors<T> };
+    formValidate:
+      | { status: "valid" }
+      | { status: "invalid"; errors: ValidationError[] };
+    touch: { name: Path<T>; touched: boolean };
     statusChange: { prev: FormStatus; status: FormStatus };
     submit: { status: "ok" } | { status: "error"; error: Error };
   };
@@ -44,39 +98,182 @@ export type UnionToIntersection<U> = (
   ? I
   : never;
 
+export type FormErrors<T> = { [P in Path<T>]?: ValidationError[] };
+
+/**
+ * Paths of `T` holding an array
+ */
+export type ArrayPath<T> = ArrayPathOf<T, Path<T>>;
+
+type ArrayPathOf<T, P> = P extends string
+  ? NonNullable<PathValue<T, P>> extends readonly any[]
+    ? P
+    : never
+  : never;
+
+/**
+ * Options for the field at path `P`. Array fields may configure their items
+ * through `item`, which makes the field a `FieldArray`.
+ */
+export type FormFieldOptions<P, T, V = any> = Omit<
+  FieldOptions<P, T, V>,
+  "name"
+> &
+  (NonNullable<T> extends readonly any[]
+    ? { item?: FieldItemOptions<ArrayItem<NonNullable<T>>> }
+    : {});
+
+/**
+ * A read-only field derived from other fields, eg. a total
+ */
+export interface ComputedField<T, V> {
+  /**
+   * Fields the value is computed from. It is computed again whenever one of
+   * them changes.
+   */
+  dependencies: Path<T>[];
+  /**
+   * `signal` is aborted when a newer computation starts. Throwing a
+   * `ValidationError` sets it as the error of the computed field.
+   */
+  compute(values: T, signal: AbortSignal): V | Promise<V>;
+}
+
 export interface FormOptions<T extends FormFields> {
   defaultValues?: Partial<T>;
-  fields?: Partial<{ [K in keyof T]: Omit<FieldOptions<K, T[K]>, "name"> }>;
+  /**
+   * Field options keyed by path, eg. `name`, `address.street` or `items[0].qty`
+   */
+  fields?: { [P in Path<T>]?: FormFieldOptions<P, PathValue<T, P>, T> };
+  /**
+   * Validations over the whole form, eg. for rules spanning several fields
+   */
+  validations?: FormValidation<T>[];
+  /**
+   * Computed fields keyed by path. They are regular fields, except that they
+   * are read-only and left alone by `reset` and `clear`.
+   */
+  computed?: { [P in Path<T>]?: ComputedField<T, PathValue<T, P>> };
+  /**
+   * A Standard Schema (Zod, Valibot, ...) for the form value. It validates
+   * every field and the form as a whole, and its output is what `submit`
+   * passes on.
+   */
+  schema?: StandardSchemaV1<unknown, T>;
+  /**
+   * Call the submit function even when validation fails
+   */
+  submitOnError?: boolean;
 }
 
+export interface SubscribeOptions<S> {
+  /**
+   * Decides whether the selected value changed. Defaults to the equality of
+   * the form.
+   */
+  equality?: Equality<S>;
+}
+
+/**
+ * The values at `P`, a tuple of paths
+ */
+export type PathValues<T, P extends readonly string[]> = {
+  [K in keyof P]: PathValue<T, P[K]> | undefined;
+};
+
+// Source of the errors set with `setErrors` or thrown as a `SubmissionError`
+const SERVER = Symbol("server");
+
+type ErrorSource<T> = FormValidation<T> | typeof SERVER;
+
 export class Form<T extends FormFields> extends EventEmitter<FormEvents<T>> {
-  #fields: { [K in keyof T]?: Field<K, T[K]> } = {};
-  #equal: Equality<T[keyof T]>;
-  #validationErrors: { [K in keyof T]?: ValidationError[] } = {};
+  #fields: { [path: string]: Field<string, any> } = {};
+  #fieldOptions: { [path: string]: Omit<FieldArrayOptions<string, any>, "name"> } =
+    {};
+  #subscriptions: { [path: string]: Subscription[] } = {};
+  #equal: Equality<any>;
+  #defaultValues: Partial<T> | undefined;
+  #validationErrors: { [path: string]: ValidationError[] } = {};
+  #validations: FormValidation<T>[];
+  #schema: SchemaValidation<T> | undefined;
+  // Paths of the fields changed or left since the form was created or
+  // reset. Until the form is validated as a whole, schema issues are only
+  // reported for these, not for fields the user has not reached yet.
+  #reached = new Set<string>();
+  #schemaRuns = 0;
+  #formErrors = new Map<ErrorSource<T>, ValidationError[]>();
+  // Paths each form validation has attached errors to
+  #validationTargets = new Map<ErrorSource<T>, Set<string>>();
+  // Run counter per form validation, used to drop stale results
+  #validationRuns = new Map<FormValidation<T>, number>();
+  #validationAborts = new Map<FormValidation<T>, AbortController>();
+  #computed: { [path: string]: ComputedField<T, any> } = {};
+  #computeAborts = new Map<string, AbortController>();
+  // Fields changed since the last `change` event, with the status of the form
+  // when they changed
+  #changed = new Map<string, FormStatus>();
   #submitError?: Error;
+  #submitOnError: boolean;
+  #submitCount = 0;
+  #submitSuccessful = false;
   #status: FormStatus = "idle";
+  // The status as of the notification being delivered. In a batch the status
+  // may have moved on by the time the changes made under it are delivered.
+  #changeStatus: FormStatus = "idle";
   constructor(options: FormOptions<T>, equal = isEqual) {
     super();
+    this.on("statusChange", (e) => {
+      this.#changeStatus = e.status;
+    });
     this.#equal = equal;
+    this.#defaultValues = options.defaultValues;
+    this.#submitOnError = options.submitOnError ?? false;
+    this.#validations = options.validations?.slice() ?? [];
+    if (options.schema) {
+      this.#schema = new SchemaValidation(options.schema);
+      this.#validations.push(this.#schema);
+    }
 
-    if (options.fields) {
-      for (const key in options.fields) {
-        this.#createField({
-          name: key,
-          value: options.defaultValues?.[key],
-          ...options.fields[key],
-        });
-      }
+    const computed = (options.computed ?? {}) as Record<string, any>;
+    for (const key in computed) {
+      this.#computed[formatPath(key)] = computed[key];
     }
 
-    for (const key in options.defaultValues) {
-      if (!this.#fields[key]) {
-        this.#createField({
-          name: key,
-          value: options.defaultValues?.[key],
-        });
+    const fields = (options.fields ?? {}) as Record<string, any>;
+    for (const key in fields) {
+      const name = formatPath(key);
+      this.#fieldOptions[name] = fields[key];
+      this.#createField({
+        name,
+        value: getIn(options.defaultValues, name),
+        ...fields[key],
+        ...(this.#computed[name] && { readOnly: true }),
+      });
+    }
+
+    for (const path in this.#computed) {
+      if (!this.#fields[path]) {
+        this.#createField({ name: path, readOnly: true });
       }
     }
+
+    this.#seedFields(options.defaultValues, []);
+
+    for (const path in this.#computed) {
+      this.#watchComputed(path);
+    }
+
+    this.#applyConditions();
+  }
+
+  /**
+   * A form editing models of `definition`, see `modelFormOptions`
+   */
+  static fromModel<F extends ModelFields>(
+    definition: ModelDefinition<F, any>,
+    options?: ModelFormOptions<F>,
+  ): Form<ModelData<F>> {
+    return new Form(modelFormOptions(definition, options));
   }
 
   get status() {
@@ -92,42 +289,188 @@ export class Form<T extends FormFields> extends EventEmitter<FormEvents<T>> {
     return false;
   }
 
-  get validationErrors() {
-    return { ...this.#validationErrors };
+  get isTouched() {
+    return Object.values(this.#fields).some((field) => field.isTouched);
+  }
+
+  /**
+   * Paths of the fields the user has left, or which have been marked as
+   * touched
+   */
+  get touchedFields(): Path<T>[] {
+    return Object.keys(this.#fields).filter(
+      (path) => this.#fields[path].isTouched,
+    ) as Path<T>[];
+  }
+
+  get validationErrors(): FormErrors<T> {
+    return { ...this.#validationErrors } as FormErrors<T>;
   }
 
   get submitError() {
     return this.#submitError;
   }
 
+  /**
+   * Number of submit attempts since the form was created or reset
+   */
+  get submitCount() {
+    return this.#submitCount;
+  }
+
+  get isSubmitted() {
+    return this.#submitCount > 0;
+  }
+
+  /**
+   * Whether the last submit attempt passed validation and the submit
+   * function completed without throwing
+   */
+  get isSubmitSuccessful() {
+    return this.#submitSuccessful;
+  }
+
+  /**
+   * Errors reported by form validations, or set with `setErrors`, for the
+   * form as a whole
+   */
+  get formErrors(): ValidationError[] {
+    return Array.from(this.#formErrors.values()).flat();
+  }
+
   get isValid(): boolean {
-    return Object.values(this.#fields as Record<string, Field<any, any>>).every(
-      (m) => m.isValid,
+    return (
+      !this.#formErrors.size &&
+      Object.values(this.#fields).every((m) => m.isValid)
     );
   }
 
-  field<K extends keyof T>(name: K): Field<K, T[K]> {
-    if (!this.#fields[name]) {
-      this.#createField({ name });
+  /**
+   * The fields registered on the form, not counting the items of field
+   * arrays
+   */
+  get fields(): Field<string, any>[] {
+    return Object.values(this.#fields);
+  }
+
+  /**
+   * Runs `fn` in a `batch`, so listeners of the form and its fields are
+   * notified once, after `fn` is done
+   */
+  transaction<R>(fn: () => R): R {
+    return batch(fn);
+  }
+
+  /**
+   * Calls `callback` with the values at `paths` whenever any of them changes
+   */
+  watch<const P extends readonly Path<T>[]>(
+    paths: P,
+    callback: (values: PathValues<T, P>, prev: PathValues<T, P>) => void,
+  ): Subscription {
+    const names = paths.map((path) => formatPath(path));
+    return this.subscribe(
+      (values) => names.map((name) => getIn(values, name)) as PathValues<T, P>,
+      callback,
+      {
+        equality: (a, b) => a!.every((value, i) => this.#equal(value, b![i])),
+      },
+    );
+  }
+
+  /**
+   * Calls `callback` whenever the part of the form value picked by `selector`
+   * changes. The selection is compared once the form is done changing, so
+   * `reset`, `clear` and fields updated along with another field notify once.
+   */
+  subscribe<S>(
+    selector: (values: T) => S,
+    callback: (value: S, prev: S) => void,
+    options: SubscribeOptions<S> = {},
+  ): Subscription {
+    const equal = options.equality ?? this.#equal;
+    let current = selector(this.toJSON());
+    const update = () => {
+      const next = selector(this.toJSON());
+      if (equal(current, next)) return;
+      const prev = current;
+      current = next;
+      callback(next, prev);
+    };
+
+    // Fields changed while validating or submitting only emit `change:<name>`
+    const subscriptions = [
+      this.on("change", update),
+      this.on("statusChange", (e) => {
+        if (e.status === "idle") update();
+      }),
+    ];
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }
+
+  field<P extends Path<T>>(name: P): Field<P, PathValue<T, P>> {
+    const path = formatPath(name);
+    if (!this.#fields[path]) {
+      this.#addField({ name: path });
+    }
+    return this.#fields[path] as Field<any, PathValue<T, P>>;
+  }
+
+  /**
+   * Returns the field at `name` as a `FieldArray`, converting a plain field
+   * already registered at that path.
+   */
+  array<P extends ArrayPath<T>>(
+    name: P,
+  ): FieldArray<P, ArrayItem<NonNullable<PathValue<T, P>>>> {
+    const path = formatPath(name);
+    const prev = this.#fields[path];
+    if (prev instanceof FieldArray) {
+      return prev as FieldArray<any, any>;
+    }
+
+    if (prev) {
+      this.#subscriptions[path]?.forEach((unsubscribe) => unsubscribe());
+      delete this.#validationErrors[path];
     }
-    return this.#fields[name]!;
+
+    const options = { ...this.#fieldOptions[path], name: path };
+    const field = prev
+      ? this.#createField({ ...options, value: prev.defaultValue }, true)
+      : this.#addField(options, true);
+
+    if (prev) {
+      field.setValue(prev.value);
+      if (prev.isTouched) field.touch();
+      field.applyConditions(this.#collect(false));
+    }
+
+    return field as FieldArray<any, any>;
   }
 
   async validate() {
     this.#setStatus("validating");
 
     this.#validationErrors = {};
-    let failed = false;
-    for (const k in this.#fields) {
-      if (!(await this.#fields[k]?.validate())) {
-        failed = true;
+    try {
+      for (const k in this.#fields) {
+        await this.#fields[k]?.validate();
+      }
+
+      for (const validation of this.#validations) {
+        await this.#runValidation(validation);
       }
+    } catch (e) {
+      this.#setStatus("idle");
+      throw e;
     }
 
+    const failed = !this.isValid;
+
     this.emit(
       "validate",
       failed
-        ? { status: "invalid", errors: { ...this.#validationErrors } }
+        ? { status: "invalid", errors: this.validationErrors }
         : { status: "valid" },
     );
 
@@ -136,89 +479,601 @@ export class Form<T extends FormFields> extends EventEmitter<FormEvents<T>> {
     return !failed;
   }
 
-  async submit(func: (value: T) => Promise<void> | void) {
-    this.#setStatus("submitting");
+  /**
+   * Sets errors found outside the form, eg. by the server, replacing those
+   * set earlier. A field's errors are cleared when its value changes; the
+   * rest are cleared by the next submit, `reset` or `clear`.
+   */
+  setErrors(
+    fields: { [P in Path<T>]?: ValidationMessages },
+    form?: ValidationMessages,
+  ) {
+    this.#applyValidationResult(SERVER, { fields, form });
+  }
+
+  /**
+   * Sets the errors found outside the form for a single field, see
+   * `setErrors`
+   */
+  setFieldError(name: Path<T>, errors: ValidationMessages) {
+    const path = formatPath(name);
+    const list = toValidationErrors(errors);
+    const targets = this.#validationTargets.get(SERVER) ?? new Set();
+    this.#validationTargets.set(SERVER, targets);
+
+    if (list.length) {
+      targets.add(path);
+      this.#resolveField(path).setExternalErrors(SERVER, list);
+    } else if (targets.delete(path)) {
+      this.#resolveField(path, false)?.setExternalErrors(SERVER, []);
+    }
+  }
+
+  /**
+   * Validates the form and passes its value to `func`. An invalid form is not
+   * submitted unless the form was created with `submitOnError`. Errors
+   * carried by a `SubmissionError` thrown from `func` are set on the form as
+   * with `setErrors`. Resolves to whether the submission succeeded.
+   */
+  async submit(func: (value: T) => Promise<void> | void): Promise<boolean> {
+    this.#submitCount++;
+    this.#submitSuccessful = false;
     this.#submitError = void 0;
+    this.#applyValidationResult(SERVER, {});
+
+    let valid: boolean;
     try {
-      await func(this.toJSON());
+      valid = await this.validate();
+    } catch (e) {
+      this.#failSubmit(e);
+      return false;
+    }
+
+    if (!valid && !this.#submitOnError) {
+      this.#failSubmit(new ValidationError("Form is invalid"));
+      return false;
+    }
+
+    this.#setStatus("submitting");
+    try {
+      await func(valid && this.#schema ? await this.#parse() : this.toJSON());
+      this.#submitSuccessful = true;
       this.emit("submit", { status: "ok" });
     } catch (e) {
-      this.#submitError = e instanceof Error ? e : new Error(String(e));
-      this.emit("submit", { status: "error", error: this.#submitError });
+      if (e instanceof SubmissionError) {
+        this.#applyValidationResult(SERVER, e.errors);
+      }
+      this.#failSubmit(e);
     } finally {
       this.#setStatus("idle");
     }
+
+    return this.#submitSuccessful;
+  }
+
+  #failSubmit(e: unknown) {
+    this.#submitError = e instanceof Error ? e : new Error(String(e));
+    this.emit("submit", { status: "error", error: this.#submitError });
   }
 
   reset(defaultValues?: Partial<T>) {
     this.#setStatus("resetting");
 
-    this.#submitError = void 0;
+    if (defaultValues) {
+      this.#defaultValues = defaultValues;
+    }
+
+    this.#resetSubmitState();
+    this.#resetFormValidations();
     this.#validationErrors = {};
 
-    let changed = false;
-    for (const name in this.#fields) {
-      const field = this.#fields[name]!;
-      if (defaultValues) {
-        field.defaultValue = defaultValues?.[name];
+    this.transaction(() => {
+      for (const name in this.#fields) {
+        if (this.#computed[name]) continue;
+        const field = this.#fields[name]!;
+        if (defaultValues) {
+          field.defaultValue = getIn(defaultValues, name);
+        }
+        field.reset();
       }
-      if (field?.reset()) {
-        changed = true;
-      }
-    }
-
-    if (changed) {
-      this.emit("change", {} as any);
-    }
+    });
 
     this.#setStatus("idle");
   }
 
   clear() {
     this.#setStatus("clearing");
-    this.#submitError = void 0;
+    this.#resetSubmitState();
+    this.#resetFormValidations();
     this.#validationErrors = {};
-    let changed = false;
-    for (const key in this.#fields) {
-      if (this.#fields[key]?.setValue(void 0)) {
-        changed = true;
+    this.transaction(() => {
+      for (const key in this.#fields) {
+        if (this.#computed[key]) continue;
+        this.#fields[key].setValue(void 0);
       }
-    }
-
-    if (changed) {
-      this.emit("change", {} as any);
-    }
+    });
 
     this.#setStatus("idle");
   }
 
+  /**
+   * The form value. Inactive fields are left out, unless their `inactive`
+   * option says otherwise.
+   */
   toJSON(): T {
-    const out: Record<string, any> = {};
-    for (const key in this.#fields) {
-      out[key] = this.#fields[key]?.value;
+    return this.#collect(true);
+  }
+
+  /**
+   * A JSON Patch turning the default values into the form value, eg. to send
+   * only what changed. Computed fields are left out, as they follow from the
+   * other fields.
+   */
+  diff(): Patch {
+    const read = (key: "value" | "defaultValue") => (path: string) =>
+      this.#computed[path] ? undefined : this.#fields[path][key];
+    return diff(
+      this.#collect(true, read("defaultValue")),
+      this.#collect(true, read("value")),
+    );
+  }
+
+  #collect(
+    excludeInactive: boolean,
+    read = (path: string) => this.#fields[path].value,
+  ): T {
+    // Parents are written before their children, so a nested field always
+    // wins over the corresponding part of an ancestor's value
+    const paths = Object.keys(this.#fields).sort(
+      (a, b) => parsePath(a).length - parsePath(b).length,
+    );
+
+    // Missing containers are arrays where the form declares or starts with
+    // one, and objects otherwise
+    const isArray = (segments: PathSegment[]) =>
+      this.#fields[formatPath(segments)] instanceof FieldArray ||
+      Array.isArray(getIn(this.#defaultValues, segments));
+
+    let out: Record<string, any> = {};
+    for (const path of paths) {
+      const field = this.#fields[path];
+      if (excludeInactive && !field.isActive && field.inactive === "exclude") {
+        continue;
+      }
+      out = setIn(out, path, read(path), isArray);
     }
     return out as T;
   }
 
-  #createField<K extends keyof T>(options: FieldOptions<K, T[K]>) {
-    const field = new Field(options, this.#equal);
+  // Conditions see every value, including those of inactive fields
+  #applyConditions() {
+    const values = this.#collect(false);
+    for (const path in this.#fields) {
+      this.#fields[path].applyConditions(values);
+    }
+  }
+
+  // Creates fields for the default values not covered by a configured field,
+  // descending only where a configured field lives further down the tree
+  #seedFields(value: unknown, prefix: (string | number)[]) {
+    if (value == null || typeof value !== "object") return;
+
+    for (const key of Object.keys(value)) {
+      const segments = [...prefix, Array.isArray(value) ? Number(key) : key];
+      const path = formatPath(segments);
+      if (this.#fields[path]) continue;
+
+      const child = (value as any)[key];
+      if (Object.keys(this.#fields).some((p) => isPathPrefix(path, p))) {
+        this.#seedFields(child, segments);
+      } else {
+        this.#createField({ name: path, value: child });
+      }
+    }
+  }
+
+  // A field added after construction starts from its part of the form value,
+  // so edits made through an ancestor field are kept. Its default value
+  // still comes from the default values of the form, and its conditions are
+  // evaluated right away.
+  #addField(options: FieldArrayOptions<string, any>, array?: boolean) {
+    const path = options.name;
+    const values = this.#collect(false);
+    const nested = Object.keys(this.#fields).some((p) =>
+      isPathPrefix(p, path),
+    );
+    const field = this.#createField(
+      {
+        ...options,
+        value: nested ? getIn(values, path) : getIn(this.#defaultValues, path),
+      },
+      array,
+    );
+    field.defaultValue = getIn(this.#defaultValues, path);
+    field.applyConditions(values);
+    return field;
+  }
+
+  #createField(
+    options: FieldArrayOptions<string, any>,
+    array = options.item !== undefined,
+  ) {
+    const field = array
+      ? new FieldArray(options, this.#equal)
+      : new Field(options, this.#equal);
     this.#fields[options.name] = field;
-    field.on("change", (e) => {
-      this.emit(`change:${String(options.name)}` as any, e as any);
-      if (this.#status === "idle") {
-        this.emit("change" as any, {});
+
+    const onChange = field.on("change", (e) => {
+      this.#changed.set(options.name, this.#changeStatus);
+      this.#clearServerErrors(options.name);
+      this.emit(`change:${options.name}` as any, e as any);
+      this.emit("fieldChange" as any, { name: options.name, ...e });
+      if (field instanceof FieldArray) {
+        this.#syncItemErrors(field);
       }
+      // Outside of a batch this commits right away
+      batch(() => {}, this.#commit);
     });
 
-    field.on("validate", (e) => {
+    const onValidate = field.on("validate", (e) => {
       if (e.status == "valid") {
         delete this.#validationErrors[options.name];
       } else {
         this.#validationErrors[options.name] = e.errors;
       }
 
-      this.emit(`validate:${String(options.name)}` as any, e);
+      this.emit(`validate:${options.name}` as any, e);
+      if (field instanceof FieldArray) {
+        this.#syncItemErrors(field);
+      }
     });
+
+    const onTouch = field.on("touch", (e) => {
+      this.emit("touch" as any, { name: options.name, touched: e.touched });
+      if (e.touched && this.#schema && this.#changeStatus === "idle") {
+        this.#reached.add(options.name);
+        this.#runSchema();
+      }
+    });
+
+    this.#subscriptions[options.name] = [onChange, onValidate, onTouch];
+
+    return field;
+  }
+
+  // Fields changed while validating or submitting are not announced with
+  // `change`, while `reset` and `clear` announce theirs without validating
+  // them. The status when a field changed decides, even if the status has
+  // changed since in a batch.
+  #commit = () => {
+    if (!this.#changed.size) return;
+    const changed = Array.from(this.#changed);
+    this.#changed.clear();
+
+    this.#applyConditions();
+    const names = changed
+      .filter(
+        ([, status]) => status !== "validating" && status !== "submitting",
+      )
+      .map(([name]) => name);
+    if (!names.length) return;
+
+    this.emit("change" as any, { names });
+    const idle = changed
+      .filter(([, status]) => status === "idle")
+      .map(([name]) => name);
+    idle.forEach((name) => this.#runDependentValidations(name));
+    if (this.#schema && idle.length) {
+      idle.forEach((name) => this.#reached.add(name));
+      this.#runSchema();
+    }
+  };
+
+  // A change of a field above or below a dependency changes the dependency
+  // too, like for dependent validations
+  #watchComputed(path: string) {
+    const dependencies = this.#computed[path].dependencies.map(formatPath);
+    const subscription = this.on("fieldChange" as any, (e: any) => {
+      const name: string = e.name;
+      if (name === path) return;
+      const dependent = dependencies.some(
+        (dep) =>
+          dep === name || isPathPrefix(dep, name) || isPathPrefix(name, dep),
+      );
+      if (dependent) this.#compute(path);
+    });
+    this.#subscriptions[path].push(subscription);
+    this.#compute(path);
+  }
+
+  // Synchronous computations are applied right away, so the form value is
+  // up to date as soon as a dependency changes
+  #compute(path: string) {
+    const computed = this.#computed[path];
+    const field = this.#fields[path];
+
+    this.#computeAborts.get(path)?.abort();
+    const abort = new AbortController();
+    this.#computeAborts.set(path, abort);
+
+    const done = (value: unknown) => {
+      if (abort.signal.aborted) return;
+      this.#computeAborts.delete(path);
+      field.setExternalErrors(computed, []);
+      field.setValue(value);
+    };
+
+    const fail = (e: unknown) => {
+      if (abort.signal.aborted) return;
+      this.#computeAborts.delete(path);
+      field.setExternalErrors(computed, [failure(e)]);
+    };
+
+    let result;
+    try {
+      result = computed.compute(this.toJSON(), abort.signal);
+    } catch (e) {
+      return fail(e);
+    }
+
+    if (result instanceof Promise) {
+      result.then(done, fail);
+    } else {
+      done(result);
+    }
+  }
+
+  async #runValidation(validation: FormValidation<T>) {
+    const run = (this.#validationRuns.get(validation) ?? 0) + 1;
+    this.#validationRuns.set(validation, run);
+
+    this.#validationAborts.get(validation)?.abort();
+    const abort = new AbortController();
+    this.#validationAborts.set(validation, abort);
+
+    let result;
+    try {
+      result =
+        (await validation.validate(this.toJSON(), abort.signal)) ?? {};
+    } catch (e) {
+      if (abort.signal.aborted) return;
+      if (!(e instanceof ValidationError)) throw e;
+      result = { form: e };
+    } finally {
+      if (this.#validationAborts.get(validation) === abort) {
+        this.#validationAborts.delete(validation);
+      }
+    }
+
+    if (this.#validationRuns.get(validation) !== run) return;
+
+    this.#applyValidationResult(validation, result);
+  }
+
+  #applyValidationResult(
+    validation: ErrorSource<T>,
+    result: FormValidationResult<T>,
+  ) {
+    const fields = (result.fields ?? {}) as Record<string, any>;
+    const targets = new Set<string>();
+    // Several paths may resolve to the same ancestor field
+    const errorsByField = new Map<Field<string, any>, ValidationError[]>();
+    for (const key in fields) {
+      const errors = toValidationErrors(fields[key]);
+      if (!errors.length) continue;
+      const path = formatPath(key);
+      targets.add(path);
+      const field = this.#resolveField(path);
+      errorsByField.set(field, [
+        ...(errorsByField.get(field) ?? []),
+        ...errors,
+      ]);
+    }
+
+    for (const path of this.#validationTargets.get(validation) ?? []) {
+      const field = this.#resolveField(path, false);
+      if (field && !errorsByField.has(field)) {
+        field.setExternalErrors(validation, []);
+      }
+    }
+    errorsByField.forEach((errors, field) =>
+      field.setExternalErrors(validation, errors),
+    );
+    this.#validationTargets.set(validation, targets);
+
+    this.#setFormErrors(validation, toValidationErrors(result.form));
+  }
+
+  // Runs the schema for the submitted value, applying any issues as errors
+  async #parse(): Promise<T> {
+    const schema = this.#schema!;
+    this.#validationRuns.set(schema, (this.#validationRuns.get(schema) ?? 0) + 1);
+
+    const result = await schema.parse(this.toJSON());
+    if (result.issues) {
+      this.#applyValidationResult(schema, toValidationResult(result.issues));
+      throw new ValidationError("Form is invalid");
+    }
+
+    this.#applyValidationResult(schema, {});
+    return result.value;
+  }
+
+  // Runs the schema once for the fields changed or left, see `#reached`.
+  // Once the form has been validated as a whole, every issue is reported.
+  #runSchema() {
+    const schema = this.#schema!;
+    if (this.#validationRuns.has(schema)) {
+      this.#runValidation(schema).catch((e) =>
+        this.#setFormErrors(schema, [failure(e)]),
+      );
+      return;
+    }
+
+    const run = ++this.#schemaRuns;
+    schema.parse(this.toJSON()).then(
+      (result) => {
+        if (run !== this.#schemaRuns || this.#validationRuns.has(schema)) {
+          return;
+        }
+        const issues = (result.issues ?? []).filter((issue) =>
+          this.#isReached(issuePath(issue)),
+        );
+        this.#applyValidationResult(schema, {
+          fields: toValidationResult<T>(issues).fields,
+        });
+      },
+      (e) => this.#setFormErrors(schema, [failure(e)]),
+    );
+  }
+
+  #isReached(path: string) {
+    if (!path) return false;
+    for (const reached of this.#reached) {
+      if (
+        reached === path ||
+        isPathPrefix(reached, path) ||
+        isPathPrefix(path, reached)
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  #runDependentValidations(path: string) {
+    for (const validation of this.#validations) {
+      if (!this.#validationRuns.has(validation)) continue;
+
+      const dependent = validation.dependencies?.some((dependency) => {
+        const dep = formatPath(dependency);
+        return (
+          dep === path || isPathPrefix(dep, path) || isPathPrefix(path, dep)
+        );
+      });
+
+      if (dependent) {
+        this.#runValidation(validation).catch((e) =>
+          this.#setFormErrors(validation, [failure(e)]),
+        );
+      }
+    }
+  }
+
+  #resetSubmitState() {
+    this.#submitError = void 0;
+    this.#submitCount = 0;
+    this.#submitSuccessful = false;
+  }
+
+  // Errors from the server no longer apply once the value has changed
+  #clearServerErrors(path: string) {
+    const targets = this.#validationTargets.get(SERVER);
+    if (!targets) return;
+    for (const target of targets) {
+      if (target === path || isPathPrefix(path, target)) {
+        targets.delete(target);
+        this.#resolveField(target, false)?.setExternalErrors(SERVER, []);
+      }
+    }
+  }
+
+  #resetFormValidations() {
+    for (const [validation, targets] of this.#validationTargets) {
+      for (const path of targets) {
+        this.#resolveField(path, false)?.setExternalErrors(validation, []);
+      }
+    }
+    this.#validationTargets.clear();
+    this.#validationRuns.clear();
+    this.#reached.clear();
+    this.#schemaRuns++;
+    for (const abort of this.#validationAborts.values()) {
+      abort.abort();
+    }
+    this.#validationAborts.clear();
+
+    if (this.#formErrors.size) {
+      this.#formErrors.clear();
+      this.emit("formValidate", { status: "valid" });
+    }
+  }
+
+  #setFormErrors(validation: ErrorSource<T>, errors: ValidationError[]) {
+    if (!errors.length && !this.#formErrors.has(validation)) return;
+
+    if (errors.length) {
+      this.#formErrors.set(validation, errors);
+    } else {
+      this.#formErrors.delete(validation);
+    }
+
+    const all = this.formErrors;
+    this.emit(
+      "formValidate",
+      all.length ? { status: "invalid", errors: all } : { status: "valid" },
+    );
+  }
+
+  // The field at `path`, or the nearest field above it. Errors reported
+  // for a path below a field are attached to that field, as a field created
+  // for them would shadow part of its value.
+  #resolveField(path: string): Field<string, any>;
+  #resolveField(path: string, create: false): Field<string, any> | undefined;
+  #resolveField(path: string, create = true) {
+    const segments = parsePath(path);
+    for (let length = segments.length; length > 0; length--) {
+      const field = this.#findField(segments.slice(0, length));
+      if (field) return field;
+    }
+
+    return create ? this.field(path as Path<T>) : undefined;
+  }
+
+  // Items of a field array are not registered on the form themselves
+  #findField(segments: PathSegment[]) {
+    const field = this.#fields[formatPath(segments)];
+    if (field) return field;
+
+    const index = segments[segments.length - 1];
+    const parent = this.#fields[formatPath(segments.slice(0, -1))];
+    if (typeof index === "number" && parent instanceof FieldArray) {
+      return parent.at(index);
+    }
+  }
+
+  // Item errors are keyed by their current index, so they are rebuilt
+  // whenever an item validates or the array changes shape
+  #syncItemErrors(array: FieldArray<string, any>) {
+    const prefix = `${array.name}[`;
+    const prev: { [path: string]: ValidationError[] } = {};
+    for (const path in this.#validationErrors) {
+      if (path.startsWith(prefix) && !path.includes(".", prefix.length)) {
+        prev[path] = this.#validationErrors[path];
+        delete this.#validationErrors[path];
+      }
+    }
+
+    for (let i = 0; i < array.length; i++) {
+      const path = `${array.name}[${i}]`;
+      const errors = array.at(i)!.errors;
+      if (errors.length) {
+        this.#validationErrors[path] = errors;
+      }
+
+      if (!sameErrors(prev[path], errors)) {
+        this.emit(
+          `validate:${path}` as any,
+          errors.length ? { status: "invalid", errors } : { status: "valid" },
+        );
+      }
+      delete prev[path];
+    }
+
+    // Items that are gone
+    for (const path in prev) {
+      this.emit(`validate:${path}` as any, { status: "valid" });
+    }
   }
 
   #setStatus(status: FormStatus) {
@@ -230,3 +1085,14 @@ export class Form<T extends FormFields> extends EventEmitter<FormEvents<T>> {
     }
   }
 }
+
+// Unexpected failures of work the form starts by itself, eg. a validation
+// rerun after a change, are reported as errors rather than rejections
+function failure(e: unknown) {
+  return new ValidationError(e instanceof Error ? e.message : String(e));
+}
+
+function sameErrors(a: ValidationError[] | undefined, b: ValidationError[]) {
+  if (!a) return !b.length;
+  return a.length === b.length && a.every((e, i) => e === b[i]);
+}
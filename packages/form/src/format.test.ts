@@ -0,0 +1,66 @@
+import { describe, test, expect } from "vitest";
+import { currency, isoDate, localDate, mask, numberFormat } from "./format";
+
+describe("numberFormat", () => {
+  test("should format with locale grouping", () => {
+    const { format } = numberFormat("en-US");
+    expect(format(1234567.5)).toBe("1,234,567.5");
+    expect(format(undefined)).toBe("");
+  });
+
+  test("should parse grouped text", () => {
+    const { parse } = numberFormat("de-DE");
+    expect(parse("1.234,5")).toBe(1234.5);
+    expect(parse("-12")).toBe(-12);
+  });
+
+  test("should parse empty text as undefined", () => {
+    const { parse } = numberFormat("en-US");
+    expect(parse("")).toBeUndefined();
+    expect(parse(" ")).toBeUndefined();
+  });
+});
+
+describe("currency", () => {
+  test("should round trip", () => {
+    const { parse, format } = currency("USD", "en-US");
+    expect(format(1234.5)).toBe("$1,234.50");
+    expect(parse("$1,234.50")).toBe(1234.5);
+  });
+});
+
+describe("mask", () => {
+  const phone = mask("(###) ###-####");
+
+  test("should lay out digits", () => {
+    expect(phone.format("5551234567")).toBe("(555) 123-4567");
+  });
+
+  test("should not add literals after the last digit", () => {
+    expect(phone.format("555")).toBe("(555");
+    expect(phone.format("5551")).toBe("(555) 1");
+  });
+
+  test("should parse the digits", () => {
+    expect(phone.parse("(555) 123-45679")).toBe("5551234567");
+    expect(phone.parse("()")).toBeUndefined();
+  });
+});
+
+describe("isoDate", () => {
+  test("should only accept complete dates", () => {
+    const { parse } = isoDate();
+    expect(parse("2026-02-02")).toBe("2026-02-02");
+    expect(parse("")).toBeUndefined();
+  });
+});
+
+describe("localDate", () => {
+  test("should parse to local midnight", () => {
+    const { parse, format } = localDate();
+    const date = parse("2026-02-02")!;
+    expect(date.getDate()).toBe(2);
+    expect(date.getHours()).toBe(0);
+    expect(format(date)).toBe("2026-02-02");
+  });
+});
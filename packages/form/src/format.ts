@@ -0,0 +1,123 @@
+/**
+ * Converts between a field value and the text shown in a control. Spread it
+ * into the options of a field, eg. `{ ...currency("DKK", "da-DK") }`.
+ */
+export interface ParseFormat<T> {
+  /**
+   * The value of `text`, or `undefined` when it holds none
+   */
+  parse(text: string): T | undefined;
+  format(value: T | undefined): string;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Numbers formatted with `Intl.NumberFormat`, eg. with locale grouping. Parsing
+ * accepts the text with or without grouping and currency symbols.
+ */
+export function numberFormat(
+  locales?: string | string[],
+  options?: Intl.NumberFormatOptions,
+): ParseFormat<number> {
+  const formatter = new Intl.NumberFormat(locales, options);
+  const parts = formatter.formatToParts(-11111.1);
+  const part = (type: string) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+
+  const decimal = part("decimal") || ".";
+  const symbol = part("currency");
+  const strip = new RegExp(`[^\\d${escapeRegExp(decimal)}\\-−]`, "g");
+
+  return {
+    parse(text) {
+      let clean = symbol ? text.split(symbol).join("") : text;
+      clean = clean.replace(strip, "").replace("−", "-");
+      if (decimal !== ".") clean = clean.split(decimal).join(".");
+      if (!/\d/.test(clean)) return undefined;
+      const value = Number(clean);
+      return Number.isNaN(value) ? undefined : value;
+    },
+    format(value) {
+      return value == null || Number.isNaN(value) ? "" : formatter.format(value);
+    },
+  };
+}
+
+export function currency(
+  currency: string,
+  locales?: string | string[],
+  options?: Intl.NumberFormatOptions,
+): ParseFormat<number> {
+  return numberFormat(locales, { ...options, style: "currency", currency });
+}
+
+/**
+ * Digits laid out in `pattern`, where every `#` is a digit and other
+ * characters are literals, eg. `(###) ###-####`. The value holds the digits
+ * only. Literals are inserted as digits are typed, so they never get in the
+ * way of deleting.
+ */
+export function mask(pattern: string): ParseFormat<string> {
+  const slots = pattern.split("").filter((c) => c === "#").length;
+
+  return {
+    parse(text) {
+      const digits = text.replace(/\D/g, "").slice(0, slots);
+      return digits || undefined;
+    },
+    format(value) {
+      const digits = (value ?? "").replace(/\D/g, "");
+      let out = "";
+      let i = 0;
+      for (const c of pattern) {
+        if (i >= digits.length) break;
+        out += c === "#" ? digits[i++] : c;
+      }
+      return out;
+    },
+  };
+}
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Dates as `YYYY-MM-DD` strings, as used by `<input type="date">`. Unlike a
+ * `Date`, the value does not depend on the time zone.
+ */
+export function isoDate(): ParseFormat<string> {
+  return {
+    parse(text) {
+      return ISO_DATE.test(text) ? text : undefined;
+    },
+    format(value) {
+      return value ?? "";
+    },
+  };
+}
+
+/**
+ * Dates from `YYYY-MM-DD` text at local midnight, rather than at UTC midnight
+ * as `valueAsDate` gives
+ */
+export function localDate(): ParseFormat<Date> {
+  const pad = (n: number, length = 2) => String(n).padStart(length, "0");
+
+  return {
+    parse(text) {
+      const match = ISO_DATE.exec(text);
+      if (!match) return undefined;
+      const [, year, month, day] = match.map(Number);
+      return new Date(year, month - 1, day);
+    },
+    format(value) {
+      if (!value || Number.isNaN(value.getTime())) return "";
+      const year = pad(value.getFullYear(), 4);
+      const month = pad(value.getMonth() + 1);
+      const day = pad(value.getDate());
+      return `${year}-${month}-${day}`;
+    },
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, test, expect } from "vitest";
+import { History, ObservableList } from "@kildevaeld/model";
+import { Form } from "./form";
+import { trackForm } from "./history";
+
+interface Profile {
+  name: string;
+  email: string;
+  tags: string[];
+}
+
+describe("trackForm", () => {
+  test("should undo and redo field changes", () => {
+    const form = new Form<Profile>({ defaultValues: { name: "John" } });
+    const history = new History();
+    trackForm(history, form);
+
+    form.field("name").setValue("Jane");
+    form.field("email").setValue("jane@example.com");
+
+    history.undo();
+    expect(form.toJSON()).toMatchObject({ name: "Jane", email: undefined });
+
+    history.undo();
+    expect(form.field("name").value).toBe("John");
+    expect(history.canUndo).toBe(false);
+
+    history.redo();
+    expect(form.field("name").value).toBe("Jane");
+    expect(history.canRedo).toBe(true);
+  });
+
+  test("should group changes in a transaction", () => {
+    const form = new Form<Profile>({});
+    const history = new History();
+    trackForm(history, form);
+
+    history.transaction(() => {
+      form.field("name").setValue("Jane");
+      form.field("email").setValue("jane@example.com");
+    });
+    history.undo();
+
+    expect(form.field("name").value).toBeUndefined();
+    expect(form.field("email").value).toBeUndefined();
+  });
+
+  test("should undo a reset as one step", () => {
+    const form = new Form<Profile>({
+      defaultValues: { name: "John", email: "john@example.com" },
+    });
+    const history = new History();
+    trackForm(history, form);
+
+    form.field("name").setValue("Jane");
+    form.field("email").setValue("jane@example.com");
+    form.reset();
+
+    history.undo();
+    expect(form.toJSON()).toMatchObject({
+      name: "Jane",
+      email: "jane@example.com",
+    });
+  });
+
+  test("should undo a reset in a transaction as one step", () => {
+    const form = new Form<Profile>({
+      defaultValues: { name: "John", email: "john@example.com" },
+    });
+    const history = new History();
+    trackForm(history, form);
+
+    form.field("name").setValue("Jane");
+    form.field("email").setValue("jane@example.com");
+    form.transaction(() => form.reset());
+
+    history.undo();
+    expect(form.toJSON()).toMatchObject({
+      name: "Jane",
+      email: "jane@example.com",
+    });
+  });
+
+  test("should undo changes to lists held by fields", () => {
+    const tags = new ObservableList(["a"]);
+    const form = new Form<{ tags: ObservableList<string> }>({
+      defaultValues: { tags },
+    });
+    const history = new History();
+    trackForm(history, form);
+
+    tags.push("b");
+    expect(history.canUndo).toBe(true);
+
+    history.undo();
+    expect(tags.toJSON()).toEqual(["a"]);
+    expect(history.canUndo).toBe(false);
+  });
+
+  test("should undo changes to field arrays", () => {
+    const form = new Form<Profile>({ defaultValues: { tags: ["a"] } });
+    const history = new History();
+    trackForm(history, form);
+
+    const array = form.array("tags");
+    array.append("b");
+    array.at(0)!.setValue("x");
+
+    history.undo();
+    expect(array.value).toEqual(["a", "b"]);
+
+    history.undo();
+    expect(array.value).toEqual(["a"]);
+  });
+
+  test("should stop recording when unsubscribed", () => {
+    const form = new Form<Profile>({});
+    const history = new History();
+    const unsubscribe = trackForm(history, form);
+
+    unsubscribe();
+    form.field("name").setValue("Jane");
+
+    expect(history.canUndo).toBe(false);
+  });
+});
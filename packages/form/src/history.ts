@@ -0,0 +1,68 @@
+import {
+  batch,
+  type History,
+  ObservableList,
+  ObservableObject,
+  type Subscription,
+} from "@kildevaeld/model";
+import type { Form, FormFields } from "./form.js";
+
+type Observable = ObservableList<any> | ObservableObject<any>;
+
+function isObservable(value: unknown): value is Observable {
+  return value instanceof ObservableList || value instanceof ObservableObject;
+}
+
+/**
+ * Records the field changes of `form` in `history`, until the returned
+ * subscription is called. Undoing sets the previous value on the field.
+ * Lists and objects held by fields are tracked too, so changing them in place
+ * can be undone. A reset or clear of the form is undone as one step.
+ */
+export function trackForm<T extends FormFields>(
+  history: History,
+  form: Form<T>,
+): Subscription {
+  // Observable field values, keyed by field name
+  const tracked = new Map<string, { value: Observable; stop: Subscription }>();
+
+  const trackValue = (name: string, value: unknown) => {
+    tracked.get(name)?.stop();
+    tracked.delete(name);
+    if (isObservable(value)) {
+      tracked.set(name, { value, stop: history.track(value) });
+    }
+  };
+
+  for (const field of form.fields) {
+    trackValue(field.name, field.value);
+  }
+
+  const onChange = form.on("fieldChange", ({ name, prev, value }) => {
+    // Changed in place, which the tracking of the value records
+    if (tracked.get(name)?.value === value) return;
+
+    trackValue(name, value);
+    history.record({
+      undo: () => form.field(name).setValue(prev as any),
+      redo: () => form.field(name).setValue(value as any),
+    });
+  });
+
+  const onStatus = form.on("statusChange", ({ prev, status }) => {
+    if (status === "resetting" || status === "clearing") {
+      history.begin();
+    } else if (prev === "resetting" || prev === "clearing") {
+      // In a batch the changes of the reset are delivered after this, so the
+      // step is recorded once they are
+      batch(() => {}, history.commit.bind(history));
+    }
+  });
+
+  return () => {
+    onChange();
+    onStatus();
+    tracked.forEach(({ stop }) => stop());
+    tracked.clear();
+  };
+}
@@ -1,3 +1,10 @@
 export * from "./field.js";
 export * from "./form.js";
 export * from "./validator.js";
+export * from "./path.js";
+export * from "./array.js";
+export * from "./schema.js";
+export * from "./format.js";
+export * from "./history.js";
+export * from "./persist.js";
+export * from "./model.js";
@@ -0,0 +1,95 @@
+import { describe, test, expect } from "vitest";
+import {
+  defineModel,
+  list,
+  model,
+  number,
+  string,
+} from "@kildevaeld/model";
+import { Form } from "./form";
+import { FieldTypeValidation } from "./model";
+
+const Address = defineModel({
+  street: string({ required: true }),
+  zip: string({
+    validate: (value) => (/^\d{4}$/.test(value) ? undefined : "Invalid zip"),
+  }),
+});
+
+const Person = defineModel({
+  id: string(),
+  name: string({ default: "", required: true }),
+  age: number({ validate: (value) => (value < 0 ? "Too young" : undefined) }),
+  tags: list(string()),
+  address: model(Address, { default: {} }),
+});
+
+describe("Form from models", () => {
+  test("should start from the defaults of a new model", () => {
+    const form = Form.fromModel(Person);
+    expect(form.toJSON()).toEqual({
+      name: "",
+      tags: [],
+      address: {},
+    });
+  });
+
+  test("should start from the values of a model", () => {
+    const person = new Person({ id: "1", name: "Ann", tags: ["a"] });
+    const form = Form.fromModel(Person, { model: person });
+    expect(form.field("name").value).toBe("Ann");
+    expect(form.field("tags").value).toEqual(["a"]);
+  });
+
+  test("should require and validate fields like the model", async () => {
+    const form = Form.fromModel(Person);
+    form.field("age").setValue(-1);
+    form.field("address.zip").setValue("12");
+
+    expect(await form.validate()).toBe(false);
+    expect(form.validationErrors).toMatchObject({
+      name: [{ message: "Required" }],
+      age: [{ message: "Too young" }],
+      "address.street": [{ message: "Required" }],
+      "address.zip": [{ message: "Invalid zip" }],
+    });
+  });
+
+  test("should parse the text of controls", () => {
+    const form = Form.fromModel(Person);
+    expect(form.field("age").parse?.("42")).toBe(42);
+    expect(form.field("age").parse?.("x")).toBeUndefined();
+    expect(form.field("name").parse).toBeUndefined();
+  });
+
+  test("should merge field options", () => {
+    const form = Form.fromModel(Person, {
+      fields: { name: { required: false } },
+    });
+    expect(form.field("name").isRequired).toBe(false);
+    expect(form.field("age").isRequired).toBe(false);
+  });
+
+  test("should submit values a model can be created from", async () => {
+    const form = Form.fromModel(Person);
+    form.field("name").setValue("Ann");
+    form.field("address.street").setValue("Main St");
+
+    let person: InstanceType<typeof Person> | undefined;
+    await form.submit((values) => {
+      person = Person.fromJSON(values);
+    });
+    expect(person?.get("name")).toBe("Ann");
+    expect(person?.isValid).toBe(true);
+  });
+});
+
+describe("FieldTypeValidation", () => {
+  test("should reject values which cannot be coerced", async () => {
+    const validation = new FieldTypeValidation(number());
+    await expect(validation.validate("x")).rejects.toThrow(
+      'Cannot convert "x" to a number',
+    );
+    await expect(validation.validate("3")).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  type DefinedModel,
+  type FieldType,
+  type ModelData,
+  type ModelDefinition,
+  type ModelFields,
+  toPlain,
+} from "@kildevaeld/model";
+import type { FormOptions } from "./form.js";
+import { type Validation, ValidationError } from "./validator.js";
+
+export type ModelFormOptions<F extends ModelFields> = Omit<
+  FormOptions<ModelData<F>>,
+  "defaultValues"
+> & {
+  /**
+   * The model the form starts from. Defaults to a new model.
+   */
+  model?: DefinedModel<F, any>;
+};
+
+/**
+ * Validates a value against a field of a model, see `defineModel`. The value
+ * is coerced first, so the text of a control is accepted too.
+ */
+export class FieldTypeValidation<T> implements Validation<unknown> {
+  constructor(readonly type: FieldType<T>) {}
+
+  async validate(value: unknown) {
+    let coerced: T | undefined;
+    try {
+      coerced = this.type.coerce(value);
+    } catch (e) {
+      throw new ValidationError((e as Error).message);
+    }
+    const [message] = this.type.validate(coerced);
+    if (message) throw new ValidationError(message);
+  }
+}
+
+/**
+ * Form options for editing models of `definition`. Every field of the model,
+ * including those of nested models, gets a form field which is required,
+ * parsed and validated like the model field. Options given in `fields` are
+ * merged over them.
+ */
+export function modelFormOptions<F extends ModelFields>(
+  definition: ModelDefinition<F, any>,
+  options: ModelFormOptions<F> = {},
+): FormOptions<ModelData<F>> {
+  const { model, fields = {}, ...rest } = options;
+
+  const generated: Record<string, object> = {};
+  addFields(generated, definition.fields, "");
+  for (const [path, field] of Object.entries<object>(fields)) {
+    generated[path] = { ...generated[path], ...field };
+  }
+
+  return {
+    ...rest,
+    defaultValues: toPlain(model ?? new definition()) as ModelData<F>,
+    fields: generated as FormOptions<ModelData<F>>["fields"],
+  };
+}
+
+function addFields(
+  out: Record<string, object>,
+  fields: ModelFields,
+  prefix: string,
+) {
+  for (const [key, type] of Object.entries(fields)) {
+    const path = prefix + key;
+    if (type.kind === "model") {
+      addFields(out, type.fields!, `${path}.`);
+      continue;
+    }
+
+    out[path] = {
+      required: type.required,
+      validations: [new FieldTypeValidation(type)],
+      ...(PARSED.has(type.kind) && { parse: parser(type) }),
+    };
+  }
+}
+
+// Kinds whose values are not text, and read from controls by coercion
+const PARSED = new Set<FieldType<unknown>["kind"]>([
+  "number",
+  "boolean",
+  "date",
+]);
+
+function parser<T>(type: FieldType<T>) {
+  return (text: string) => {
+    try {
+      return type.coerce(text);
+    } catch {
+      return undefined;
+    }
+  };
+}
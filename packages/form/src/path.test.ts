@@ -0,0 +1,98 @@
+import { describe, test, expect, expectTypeOf } from "vitest";
+import {
+  formatPath,
+  getIn,
+  isPathPrefix,
+  parsePath,
+  setIn,
+  type Path,
+  type PathValue,
+} from "./path";
+
+interface Order {
+  name: string;
+  address: { street: string; city?: string };
+  items: { qty: number; tags: string[] }[];
+  created: Date;
+}
+
+describe("parsePath", () => {
+  test("should split dot notation", () => {
+    expect(parsePath("address.street")).toEqual(["address", "street"]);
+  });
+
+  test("should parse bracket indexes as numbers", () => {
+    expect(parsePath("items[2].qty")).toEqual(["items", 2, "qty"]);
+  });
+
+  test("should treat numeric dot segments as indexes", () => {
+    expect(parsePath("items.2.qty")).toEqual(["items", 2, "qty"]);
+  });
+});
+
+describe("formatPath", () => {
+  test("should normalize to bracket notation", () => {
+    expect(formatPath("items.2.qty")).toBe("items[2].qty");
+    expect(formatPath(["items", 0, "tags", 1])).toBe("items[0].tags[1]");
+  });
+});
+
+describe("isPathPrefix", () => {
+  test("should detect ancestors", () => {
+    expect(isPathPrefix("items", "items[0].qty")).toBe(true);
+    expect(isPathPrefix("items[0]", "items[0].qty")).toBe(true);
+    expect(isPathPrefix("items[0].qty", "items[0].qty")).toBe(false);
+    expect(isPathPrefix("item", "items[0]")).toBe(false);
+  });
+});
+
+describe("getIn/setIn", () => {
+  test("should read nested values", () => {
+    const value = { items: [{ qty: 1 }, { qty: 2 }] };
+    expect(getIn(value, "items[1].qty")).toBe(2);
+    expect(getIn(value, "items[5].qty")).toBeUndefined();
+    expect(getIn(undefined, "a.b")).toBeUndefined();
+  });
+
+  test("should write without mutating the source", () => {
+    const value = { address: { street: "Main" }, items: [{ qty: 1 }] };
+    const out = setIn(value, "items[0].qty", 5);
+
+    expect(out).toEqual({ address: { street: "Main" }, items: [{ qty: 5 }] });
+    expect(value.items[0].qty).toBe(1);
+    expect(out.address).toBe(value.address);
+  });
+
+  test("should create missing containers", () => {
+    expect(setIn({}, "address.street", "Main")).toEqual({
+      address: { street: "Main" },
+    });
+    expect(setIn({}, "items[1].qty", 3, (path) => path.length === 1)).toEqual(
+      { items: [undefined, { qty: 3 }] },
+    );
+  });
+
+  test("should keep numeric keys of objects", () => {
+    expect(setIn({}, "years.2024", 5)).toEqual({ years: { 2024: 5 } });
+    expect(setIn({ items: [] }, "items.1", 3)).toEqual({
+      items: [undefined, 3],
+    });
+  });
+});
+
+describe("Path types", () => {
+  test("should infer nested paths and values", () => {
+    expectTypeOf<"address.street">().toMatchTypeOf<Path<Order>>();
+    expectTypeOf<"items[2].qty">().toMatchTypeOf<Path<Order>>();
+    expectTypeOf<"items[0].tags[1]">().toMatchTypeOf<Path<Order>>();
+    expectTypeOf<PathValue<Order, "address.street">>().toEqualTypeOf<string>();
+    expectTypeOf<PathValue<Order, "items[2].qty">>().toEqualTypeOf<number>();
+    expectTypeOf<PathValue<Order, "items[0].tags">>().toEqualTypeOf<
+      string[]
+    >();
+  });
+
+  test("should not descend into leaf values", () => {
+    expectTypeOf<"created.getTime">().not.toMatchTypeOf<Path<Order>>();
+  });
+});
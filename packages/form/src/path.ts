@@ -0,0 +1,160 @@
+import type { IEventEmitter } from "@kildevaeld/model";
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+
+// Values we never descend into when building paths
+type Leaf =
+  | Primitive
+  | Date
+  | RegExp
+  | Blob
+  | ((...args: any[]) => any)
+  | IEventEmitter<any>;
+
+type Prev = [never, 0, 1, 2, 3, 4, 5];
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+type SubPath<P extends string, V, D extends number> =
+  IsAny<V> extends true
+    ? `${P}.${string}` | `${P}[${number}]${string}`
+    : V extends Leaf
+      ? never
+      : V extends readonly (infer E)[]
+        ?
+            | `${P}[${number}]`
+            | SubPath<`${P}[${number}]`, NonNullable<E>, Prev[D]>
+        : V extends object
+          ? `${P}.${PathOf<V, Prev[D]>}`
+          : never;
+
+type PathOf<T, D extends number> = [D] extends [never]
+  ? never
+  : {
+      [K in keyof T & string]: K | SubPath<K, NonNullable<T[K]>, D>;
+    }[keyof T & string];
+
+/**
+ * All field paths of `T` in dot/bracket notation, eg. `address.street` or
+ * `items[${number}].qty`.
+ */
+export type Path<T> = PathOf<T, 6>;
+
+type DotValue<T, P extends string> = P extends `${infer K}.${infer R}`
+  ? K extends keyof T
+    ? PathValue<NonNullable<T[K]>, R>
+    : never
+  : never;
+
+type IndexValue<E, R extends string> = R extends ""
+  ? E
+  : R extends `.${infer S}`
+    ? PathValue<NonNullable<E>, S>
+    : PathValue<NonNullable<E>, R>;
+
+/**
+ * The type of the value found at path `P` in `T`.
+ */
+export type PathValue<T, P extends string> = P extends keyof T
+  ? T[P]
+  : P extends `[${number}]${infer R}`
+    ? T extends readonly (infer E)[]
+      ? IndexValue<E, R>
+      : never
+    : P extends `${infer K}[${infer R}`
+      ? K extends `${string}.${string}`
+        ? DotValue<T, P>
+        : K extends keyof T
+          ? PathValue<NonNullable<T[K]>, `[${R}`>
+          : never
+      : DotValue<T, P>;
+
+export type PathSegment = string | number;
+
+const SEGMENT = /([^.[\]]+)|\[(\d+)\]/g;
+
+export function parsePath(path: string | readonly PathSegment[]): PathSegment[] {
+  if (typeof path !== "string") {
+    return path.slice();
+  }
+
+  const out: PathSegment[] = [];
+  for (const match of path.matchAll(SEGMENT)) {
+    if (match[2] !== undefined) {
+      out.push(Number(match[2]));
+    } else if (/^\d+$/.test(match[1])) {
+      out.push(Number(match[1]));
+    } else {
+      out.push(match[1]);
+    }
+  }
+  return out;
+}
+
+export function formatPath(path: string | readonly PathSegment[]): string {
+  let out = "";
+  for (const segment of parsePath(path)) {
+    if (typeof segment === "number") {
+      out += `[${segment}]`;
+    } else {
+      out += out ? `.${segment}` : segment;
+    }
+  }
+  return out;
+}
+
+export function isPathPrefix(
+  parent: string | readonly PathSegment[],
+  child: string | readonly PathSegment[],
+) {
+  const a = parsePath(parent),
+    b = parsePath(child);
+  if (a.length >= b.length) return false;
+  return a.every((segment, i) => segment === b[i]);
+}
+
+export function getIn(value: unknown, path: string | readonly PathSegment[]) {
+  let current: any = value;
+  for (const segment of parsePath(path)) {
+    if (current == null) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Returns a copy of `target` with `value` at `path`. Containers along the path
+ * are shallow-copied, or created when missing. A missing container is an
+ * array only when `isArray` says so for its path, so numeric keys like the
+ * `2024` of `years.2024` do not make sparse arrays.
+ */
+export function setIn<T>(
+  target: T,
+  path: string | readonly PathSegment[],
+  value: unknown,
+  isArray: (path: PathSegment[]) => boolean = () => false,
+): T {
+  return setSegments(target, parsePath(path), 0, value, isArray);
+}
+
+function setSegments(
+  target: any,
+  segments: PathSegment[],
+  depth: number,
+  value: unknown,
+  isArray: (path: PathSegment[]) => boolean,
+): any {
+  if (depth === segments.length) return value;
+
+  const head = segments[depth];
+  const source: any =
+    target != null && typeof target === "object"
+      ? target
+      : typeof head === "number" && isArray(segments.slice(0, depth))
+        ? []
+        : {};
+
+  const copy = Array.isArray(source) ? source.slice() : { ...source };
+  copy[head] = setSegments(source[head], segments, depth + 1, value, isArray);
+  return copy;
+}
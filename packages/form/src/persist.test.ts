@@ -0,0 +1,191 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
+import { ObservableList } from "@kildevaeld/model";
+import { Form } from "./form";
+import {
+  FormPersistence,
+  memoryStorage,
+  type StorageAdapter,
+  webStorage,
+} from "./persist";
+
+interface Signup {
+  name: string;
+  password: string;
+  tags: ObservableList<string>;
+}
+
+describe("FormPersistence", () => {
+  let entries: Map<string, string>;
+  let storage: StorageAdapter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    entries = new Map();
+    storage = memoryStorage(entries);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("should save changes after the throttle", async () => {
+    const form = new Form<Signup>({});
+    new FormPersistence(form, { key: "signup", storage, throttle: 100 });
+
+    form.field("name").setValue("J");
+    form.field("name").setValue("Jo");
+    expect(entries.has("signup")).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(JSON.parse(entries.get("signup")!).values).toEqual({ name: "Jo" });
+  });
+
+  test("should restore the draft on construction", async () => {
+    const first = new Form<Signup>({ defaultValues: { name: "" } });
+    const persistence = new FormPersistence(first, { key: "signup", storage });
+    first.field("name").setValue("John");
+    first.field("name").touch();
+    await persistence.save();
+
+    const form = new Form<Signup>({ defaultValues: { name: "" } });
+    const restored = new FormPersistence(form, { key: "signup", storage });
+
+    expect(form.field("name").value).toBe("John");
+    expect(form.field("name").isDirty).toBe(true);
+    expect(form.field("name").isTouched).toBe(true);
+    expect(await restored.restored).toBe(true);
+  });
+
+  test("should not store excluded fields", async () => {
+    const form = new Form<Signup>({});
+    const persistence = new FormPersistence(form, {
+      key: "signup",
+      storage,
+      exclude: ["password"],
+    });
+    form.field("name").setValue("John");
+    form.field("password").setValue("secret");
+    await persistence.save();
+
+    expect(entries.get("signup")).not.toContain("secret");
+  });
+
+  test("should not store files", async () => {
+    const form = new Form<Signup & { docs: File[] }>({
+      defaultValues: { docs: [] },
+    });
+    const persistence = new FormPersistence(form, { key: "signup", storage });
+    form.field("name").setValue("John");
+    form.field("docs").setValue([new File(["abc"], "a.txt")]);
+    await persistence.save();
+
+    expect(JSON.parse(entries.get("signup")!).values).toEqual({ name: "John" });
+
+    const restored = new Form<Signup & { docs: File[] }>({
+      defaultValues: { docs: [] },
+    });
+    new FormPersistence(restored, { key: "signup", storage });
+    expect(restored.field("docs").value).toEqual([]);
+  });
+
+  test("should restore lists in place", async () => {
+    const tags = new ObservableList(["a"]);
+    const draft = { values: { tags: { "@list": ["a", "b"] } }, touched: [] };
+    entries.set("signup", JSON.stringify(draft));
+
+    const form = new Form<Signup>({ defaultValues: { tags } });
+    new FormPersistence(form, { key: "signup", storage });
+
+    expect(form.field("tags").value).toBe(tags);
+    expect(tags.toJSON()).toEqual(["a", "b"]);
+  });
+
+  test("should clear the draft after a successful submit", async () => {
+    const form = new Form<Signup>({});
+    const persistence = new FormPersistence(form, { key: "signup", storage });
+    form.field("name").setValue("John");
+    await persistence.save();
+
+    await form.submit(() => {});
+    await vi.runAllTimersAsync();
+
+    expect(entries.has("signup")).toBe(false);
+  });
+
+  test("should stop saving when disposed", async () => {
+    const form = new Form<Signup>({});
+    const persistence = new FormPersistence(form, { key: "signup", storage });
+    form.field("name").setValue("John");
+    persistence.dispose();
+
+    await vi.runAllTimersAsync();
+    expect(entries.has("signup")).toBe(false);
+  });
+
+  test("should restore from asynchronous storages", async () => {
+    const draft = { values: { name: "John" }, touched: [] };
+    entries.set("signup", JSON.stringify(draft));
+    const form = new Form<Signup>({});
+    const persistence = new FormPersistence(form, {
+      key: "signup",
+      storage: { ...storage, get: async (key) => storage.get(key) },
+    });
+
+    expect(await persistence.restored).toBe(true);
+    expect(form.field("name").value).toBe("John");
+  });
+
+  test("should ignore broken drafts", async () => {
+    entries.set("signup", "{");
+    const form = new Form<Signup>({});
+    const persistence = new FormPersistence(form, { key: "signup", storage });
+
+    expect(await persistence.restored).toBe(false);
+  });
+
+  test("should report failing storages", async () => {
+    const error = new Error("Quota exceeded");
+    const onError = vi.fn();
+    const form = new Form<Signup>({});
+    const persistence = new FormPersistence(form, {
+      key: "signup",
+      storage: {
+        get: async () => {
+          throw error;
+        },
+        set: () => {
+          throw error;
+        },
+        remove: async () => {
+          throw error;
+        },
+      },
+      onError,
+    });
+
+    expect(await persistence.restored).toBe(false);
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    form.field("name").setValue("John");
+    await vi.runAllTimersAsync();
+    expect(onError).toHaveBeenCalledTimes(2);
+
+    await form.submit(() => {});
+    await vi.runAllTimersAsync();
+    expect(onError).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenLastCalledWith(error);
+  });
+});
+
+describe("webStorage", () => {
+  test("should use the given storage", async () => {
+    const storage = webStorage(sessionStorage);
+    await storage.set("key", "value");
+
+    expect(sessionStorage.getItem("key")).toBe("value");
+    expect(await storage.get("key")).toBe("value");
+
+    await storage.remove("key");
+    expect(await storage.get("key")).toBeUndefined();
+  });
+});
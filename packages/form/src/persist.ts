@@ -0,0 +1,268 @@
+import {
+  deserialize,
+  ObservableList,
+  serialize,
+  type Subscription,
+} from "@kildevaeld/model";
+import type { Form, FormFields } from "./form.js";
+import {
+  formatPath,
+  isPathPrefix,
+  parsePath,
+  type Path,
+} from "./path.js";
+
+/**
+ * Where drafts are kept. Methods may return promises, for asynchronous
+ * stores like IndexedDB.
+ */
+export interface StorageAdapter {
+  get(key: string): Promise<string | undefined> | string | undefined;
+  set(key: string, value: string): Promise<void> | void;
+  remove(key: string): Promise<void> | void;
+}
+
+/**
+ * Keeps drafts in a `Storage`, eg. `localStorage` or `sessionStorage`
+ */
+export function webStorage(storage: Storage = localStorage): StorageAdapter {
+  return {
+    get: (key) => storage.getItem(key) ?? undefined,
+    set: (key, value) => storage.setItem(key, value),
+    remove: (key) => storage.removeItem(key),
+  };
+}
+
+/**
+ * Keeps drafts in memory, eg. for tests
+ */
+export function memoryStorage(
+  entries = new Map<string, string>(),
+): StorageAdapter {
+  return {
+    get: (key) => entries.get(key),
+    set: (key, value) => void entries.set(key, value),
+    remove: (key) => void entries.delete(key),
+  };
+}
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * Keeps drafts in the object store `store` of the IndexedDB database
+ * `database`, which is created when missing
+ */
+export function indexedDBStorage(
+  database = "forms",
+  store = "drafts",
+): StorageAdapter {
+  let db: Promise<IDBDatabase> | undefined;
+  const open = () => {
+    if (!db) {
+      const req = indexedDB.open(database, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(store);
+      db = request(req);
+    }
+    return db;
+  };
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T>,
+  ) => {
+    const tx = (await open()).transaction(store, mode);
+    return request(fn(tx.objectStore(store)));
+  };
+
+  return {
+    get: (key) => run("readonly", (s) => s.get(key)),
+    set: async (key, value) => {
+      await run("readwrite", (s) => s.put(value, key));
+    },
+    remove: async (key) => {
+      await run("readwrite", (s) => s.delete(key));
+    },
+  };
+}
+
+export interface PersistOptions<T> {
+  /**
+   * Key of the draft in the storage
+   */
+  key: string;
+  storage: StorageAdapter;
+  /**
+   * Fields which are never stored, eg. passwords. Excluding a path excludes
+   * the fields below it too.
+   */
+  exclude?: Path<T>[];
+  /**
+   * Milliseconds to wait between writes. Defaults to 500.
+   */
+  throttle?: number;
+  /**
+   * Called when the storage fails to restore, save or remove the draft in
+   * the background. Calls of `save` and `clear` reject instead.
+   */
+  onError?: (error: unknown) => void;
+}
+
+// Files cannot be written to a draft, and a value holding one would be
+// restored without it
+function holdsFiles(value: unknown): boolean {
+  if (value instanceof Blob) return true;
+  if (value instanceof ObservableList) return value.toJSON().some(holdsFiles);
+  if (Array.isArray(value)) return value.some(holdsFiles);
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.values(value).some(holdsFiles);
+  }
+  return false;
+}
+
+interface Draft {
+  values: { [path: string]: unknown };
+  touched: string[];
+}
+
+/**
+ * Saves the field values and touched state of a form as a draft, and restores
+ * it when created. Fields stay dirty across a reload, as a field is dirty when
+ * its value differs from its default. The draft is written a while after
+ * each change and removed when the form is submitted successfully. Fields
+ * holding files are left out, as files cannot be stored.
+ */
+export class FormPersistence<T extends FormFields> {
+  #form: Form<T>;
+  #options: PersistOptions<T>;
+  #timer: ReturnType<typeof setTimeout> | undefined;
+  #subscriptions: Subscription[];
+  #restored: Promise<boolean>;
+  constructor(form: Form<T>, options: PersistOptions<T>) {
+    this.#form = form;
+    this.#options = options;
+    // Synchronous storages are restored right away, before anything renders
+    let restored: Promise<boolean>;
+    try {
+      const stored = options.storage.get(options.key);
+      restored =
+        stored instanceof Promise
+          ? stored.then((text) => this.#restore(text))
+          : Promise.resolve(this.#restore(stored));
+    } catch (e) {
+      restored = Promise.reject(e);
+    }
+    // A draft which cannot be read is treated as missing
+    this.#restored = restored.catch((e) => {
+      this.#report(e);
+      return false;
+    });
+    this.#subscriptions = [
+      form.on("change", this.#schedule),
+      form.on("touch", this.#schedule),
+      form.on("submit", (e) => {
+        if (e.status === "ok") this.clear().catch(this.#report);
+      }),
+    ];
+  }
+
+  /**
+   * Resolves once the draft, if any, has been restored, with whether there
+   * was one. A failing storage counts as no draft.
+   */
+  get restored() {
+    return this.#restored;
+  }
+
+  /**
+   * Writes the draft right away
+   */
+  async save() {
+    this.#cancel();
+    await this.#restored;
+
+    const draft: Draft = { values: {}, touched: [] };
+    for (const field of this.#form.fields) {
+      if (this.#isExcluded(field.name) || holdsFiles(field.value)) continue;
+      draft.values[field.name] = serialize(field.value);
+      if (field.isTouched) draft.touched.push(field.name);
+    }
+
+    await this.#options.storage.set(this.#options.key, JSON.stringify(draft));
+  }
+
+  /**
+   * Removes the draft, eg. when the user discards their changes
+   */
+  async clear() {
+    this.#cancel();
+    await this.#restored;
+    await this.#options.storage.remove(this.#options.key);
+  }
+
+  /**
+   * Stops saving changes. A pending write is dropped.
+   */
+  dispose() {
+    this.#cancel();
+    this.#subscriptions.forEach((unsubscribe) => unsubscribe());
+    this.#subscriptions = [];
+  }
+
+  #restore(text: string | undefined) {
+    if (text == null) return false;
+
+    let draft: Draft;
+    try {
+      draft = JSON.parse(text);
+    } catch {
+      return false;
+    }
+
+    // Parents are restored before their children, like `Form.toJSON` writes
+    // them
+    const paths = Object.keys(draft.values)
+      .filter((path) => !this.#isExcluded(path))
+      .sort((a, b) => parsePath(a).length - parsePath(b).length);
+    for (const path of paths) {
+      const field = this.#form.field(path as Path<T>);
+      field.setValue(deserialize(draft.values[path], field.value) as any);
+    }
+
+    for (const path of draft.touched) {
+      if (!this.#isExcluded(path)) {
+        this.#form.field(path as Path<T>).touch();
+      }
+    }
+
+    return true;
+  }
+
+  #isExcluded(path: string) {
+    return (this.#options.exclude ?? []).some(
+      (excluded) =>
+        formatPath(excluded) === path || isPathPrefix(excluded, path),
+    );
+  }
+
+  #schedule = () => {
+    if (this.#timer !== undefined) return;
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      this.save().catch(this.#report);
+    }, this.#options.throttle ?? 500);
+  };
+
+  #report = (error: unknown) => {
+    this.#options.onError?.(error);
+  };
+
+  #cancel() {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+  }
+}
@@ -0,0 +1,194 @@
+import { describe, test, expect, vi } from "vitest";
+import { Form } from "./form";
+import {
+  issuePath,
+  type StandardSchemaV1,
+  toValidationResult,
+} from "./schema";
+
+interface Signup {
+  name: string;
+  age: number;
+  password: string;
+  confirm: string;
+}
+
+// A minimal schema in the shape Zod and Valibot produce: it trims the name
+// and coerces the age
+const signupSchema: StandardSchemaV1<unknown, Signup> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate(input) {
+      const value = input as Signup;
+      const issues: StandardSchemaV1.Issue[] = [];
+      if (!value.name?.trim()) {
+        issues.push({ message: "Name is required", path: ["name"] });
+      }
+      if (Number(value.age) < 18) {
+        issues.push({ message: "Too young", path: [{ key: "age" }] });
+      }
+      if (value.password !== value.confirm) {
+        issues.push({ message: "Passwords must match" });
+      }
+      return issues.length
+        ? { issues }
+        : {
+            value: {
+              ...value,
+              name: value.name.trim(),
+              age: Number(value.age),
+            },
+          };
+    },
+  },
+};
+
+describe("issuePath", () => {
+  test("should format keys and path segments", () => {
+    expect(issuePath({ message: "", path: ["items", 2, { key: "qty" }] })).toBe(
+      "items[2].qty",
+    );
+    expect(issuePath({ message: "" })).toBe("");
+  });
+});
+
+describe("toValidationResult", () => {
+  test("should split field and form issues", () => {
+    const result = toValidationResult([
+      { message: "a", path: ["name"] },
+      { message: "b", path: ["name"] },
+      { message: "c" },
+    ]);
+
+    expect(result.fields?.["name" as never]).toHaveLength(2);
+    expect(result.form).toHaveLength(1);
+  });
+});
+
+describe("Form schema", () => {
+  test("should map issues onto fields and the form", async () => {
+    const form = new Form<Signup>({
+      defaultValues: { name: "", age: 10, password: "a", confirm: "b" },
+      schema: signupSchema,
+    });
+
+    expect(await form.validate()).toBe(false);
+    expect(form.field("name").errors[0].message).toBe("Name is required");
+    expect(form.field("age").errors[0].message).toBe("Too young");
+    expect(form.formErrors[0].message).toBe("Passwords must match");
+    expect(form.validationErrors.name).toHaveLength(1);
+  });
+
+  test("should clear issues that are resolved", async () => {
+    const form = new Form<Signup>({
+      defaultValues: { name: "", age: 20, password: "a", confirm: "a" },
+      schema: signupSchema,
+    });
+
+    await form.validate();
+    form.field("name").value = "John";
+
+    expect(await form.validate()).toBe(true);
+    expect(form.field("name").isValid).toBe(true);
+  });
+
+  test("should report issues for changed fields only", async () => {
+    const form = new Form<Signup>({
+      defaultValues: { name: "", age: 20, password: "a", confirm: "b" },
+      schema: signupSchema,
+    });
+
+    form.field("age").value = 12;
+
+    await vi.waitFor(() =>
+      expect(form.field("age").errors[0]?.message).toBe("Too young"),
+    );
+    expect(form.field("name").isValid).toBe(true);
+    expect(form.formErrors).toHaveLength(0);
+  });
+
+  test("should report issues for empty fields the user has left", async () => {
+    const form = new Form<Signup>({
+      defaultValues: { name: "", age: 20, password: "a", confirm: "a" },
+      schema: signupSchema,
+    });
+    expect(form.field("name").isValid).toBe(true);
+
+    form.field("name").touch();
+
+    await vi.waitFor(() =>
+      expect(form.field("name").errors[0]?.message).toBe("Name is required"),
+    );
+  });
+
+  test("should run the schema once per change", async () => {
+    const validate = vi.spyOn(signupSchema["~standard"], "validate");
+    const form = new Form<Signup>({
+      defaultValues: { name: "", age: 20, password: "a", confirm: "a" },
+      schema: signupSchema,
+    });
+
+    form.transaction(() => {
+      form.field("name").value = "John";
+      form.field("age").value = 12;
+    });
+
+    await vi.waitFor(() =>
+      expect(form.field("age").errors[0]?.message).toBe("Too young"),
+    );
+    expect(validate).toHaveBeenCalledTimes(1);
+    validate.mockRestore();
+  });
+
+  test("should not report issues after a reset in a transaction", async () => {
+    const form = new Form<Signup>({
+      defaultValues: { name: "", age: 20, password: "a", confirm: "a" },
+      schema: signupSchema,
+    });
+    form.field("name").value = "John";
+    await vi.waitFor(() => expect(form.status).toBe("idle"));
+
+    form.transaction(() => form.reset());
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(form.field("name").isValid).toBe(true);
+    expect(form.formErrors).toHaveLength(0);
+  });
+
+  test("should submit the schema output", async () => {
+    const form = new Form<Signup>({
+      defaultValues: {
+        name: " John ",
+        age: "20" as unknown as number,
+        password: "a",
+        confirm: "a",
+      },
+      schema: signupSchema,
+    });
+    const submit = vi.fn();
+
+    await form.submit(submit);
+
+    expect(submit).toHaveBeenCalledWith({
+      name: "John",
+      age: 20,
+      password: "a",
+      confirm: "a",
+    });
+  });
+
+  test("should not submit when the schema reports issues", async () => {
+    const form = new Form<Signup>({
+      defaultValues: { name: "", age: 20, password: "a", confirm: "a" },
+      schema: signupSchema,
+    });
+    const submit = vi.fn();
+
+    await form.submit(submit);
+
+    expect(submit).not.toHaveBeenCalled();
+    expect(form.submitError).toBeDefined();
+    expect(form.field("name").isValid).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { formatPath, type PathSegment } from "./path.js";
+import {
+  type FormValidation,
+  type FormValidationResult,
+  ValidationError,
+} from "./validator.js";
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by
+ * Zod, Valibot, ArkType and others. Copied as recommended by the spec, so no
+ * dependency is needed.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["input"];
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema["~standard"]["types"]
+  >["output"];
+}
+
+/**
+ * The field path of an issue, or an empty string for issues on the root value
+ */
+export function issuePath(issue: StandardSchemaV1.Issue): string {
+  const segments: PathSegment[] = (issue.path ?? []).map((segment) => {
+    const key = typeof segment === "object" ? segment.key : segment;
+    return typeof key === "number" ? key : String(key);
+  });
+  return formatPath(segments);
+}
+
+export function toValidationResult<T>(
+  issues: ReadonlyArray<StandardSchemaV1.Issue>,
+): FormValidationResult<T> {
+  const fields: Record<string, ValidationError[]> = {};
+  const form: ValidationError[] = [];
+
+  for (const issue of issues) {
+    const path = issuePath(issue);
+    const error = new ValidationError(issue.message);
+    if (path) {
+      (fields[path] ??= []).push(error);
+    } else {
+      form.push(error);
+    }
+  }
+
+  return { fields, form } as FormValidationResult<T>;
+}
+
+/**
+ * A form validation backed by a Standard Schema. Issues are attached to the
+ * field at their path; issues without a path become form errors.
+ */
+export class SchemaValidation<T> implements FormValidation<T> {
+  constructor(readonly schema: StandardSchemaV1<unknown, T>) {}
+
+  async parse(values: T): Promise<StandardSchemaV1.Result<T>> {
+    return this.schema["~standard"].validate(values);
+  }
+
+  async validate(values: T) {
+    const result = await this.parse(values);
+    if (result.issues) {
+      return toValidationResult<T>(result.issues);
+    }
+  }
+}
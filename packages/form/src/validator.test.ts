@@ -7,6 +7,12 @@ import {
   min,
   MaxValidation,
   max,
+  step,
+  email,
+  url,
+  accept,
+  maxSize,
+  maxFiles,
 } from "./validator";
 
 describe("ValidationError", () => {
@@ -93,3 +99,62 @@ describe("MaxValidation", () => {
     expect(v).toBeInstanceOf(MaxValidation);
   });
 });
+
+describe("StepValidation", () => {
+  test("should validate multiples of the step", async () => {
+    const v = step(0.1);
+    await expect(v.validate(0.3)).resolves.toBeUndefined();
+    await expect(v.validate(0.35)).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  test("should count steps from the base", async () => {
+    const v = step(2, 1);
+    await expect(v.validate(5)).resolves.toBeUndefined();
+    await expect(v.validate(4)).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe("EmailValidation", () => {
+  test("should validate e-mail addresses", async () => {
+    const v = email();
+    await expect(v.validate("john@example.com")).resolves.toBeUndefined();
+    await expect(v.validate("john@")).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe("UrlValidation", () => {
+  test("should validate absolute URLs", async () => {
+    const v = url();
+    await expect(v.validate("https://example.com")).resolves.toBeUndefined();
+    await expect(v.validate("example")).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+  });
+});
+
+describe("File validations", () => {
+  const pdf = new File(["%PDF"], "report.pdf", { type: "application/pdf" });
+  const png = new File(["1234567890"], "photo.png", { type: "image/png" });
+
+  test("accept should match extensions and MIME types", async () => {
+    const v = accept(".pdf, image/*");
+    await expect(v.validate([pdf, png])).resolves.toBeUndefined();
+    await expect(accept("image/png").validate([pdf])).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+  });
+
+  test("maxSize should limit the size of every file", async () => {
+    await expect(maxSize(10).validate([pdf, png])).resolves.toBeUndefined();
+    await expect(maxSize(5).validate([pdf, png])).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+  });
+
+  test("maxFiles should limit the number of files", async () => {
+    await expect(maxFiles(2).validate([pdf, png])).resolves.toBeUndefined();
+    await expect(maxFiles(1).validate([pdf, png])).rejects.toBeInstanceOf(
+      ValidationError,
+    );
+  });
+});
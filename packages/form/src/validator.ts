@@ -1,9 +1,21 @@
+import type { Path } from "./path.js";
+
 export class Validator<T> {}
 
 export class ValidationError extends Error {}
 
 export interface Validation<T> {
-  validate(value: T): Promise<void>;
+  /**
+   * Milliseconds to wait before running, restarted by every new validation
+   * of the field. Useful for expensive checks, eg. a server round trip.
+   */
+  debounce?: number;
+  /**
+   * Throws a `ValidationError` when `value` is invalid. `signal` is aborted
+   * when the result is no longer needed, because a newer validation started
+   * or the value changed.
+   */
+  validate(value: T, signal?: AbortSignal): Promise<void>;
 }
 
 export abstract class AbstractValidation {
@@ -107,3 +119,230 @@ export function max<T extends string | number | unknown[]>(
 ): MaxValidation<T> {
   return new MaxValidation(max, message);
 }
+
+export class StepValidation
+  extends AbstractValidation
+  implements Validation<number>
+{
+  constructor(
+    public readonly step: number,
+    public readonly base = 0,
+    message?: string,
+  ) {
+    super(message ?? `Value must be a multiple of ${step}`);
+  }
+
+  async validate(value: number) {
+    const steps = (value - this.base) / this.step;
+    // Allow for rounding errors with fractional steps
+    if (Math.abs(steps - Math.round(steps)) > 1e-9) {
+      throw new ValidationError(this.message);
+    }
+  }
+}
+
+export function step(step: number, base?: number, message?: string) {
+  return new StepValidation(step, base, message);
+}
+
+// The definition of a valid e-mail address from the HTML standard
+const EMAIL =
+  /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+
+export class EmailValidation
+  extends AbstractValidation
+  implements Validation<string>
+{
+  constructor(message?: string) {
+    super(message ?? "Invalid e-mail address");
+  }
+
+  async validate(value: string) {
+    if (!EMAIL.test(value)) {
+      throw new ValidationError(this.message);
+    }
+  }
+}
+
+export function email(message?: string) {
+  return new EmailValidation(message);
+}
+
+export class UrlValidation
+  extends AbstractValidation
+  implements Validation<string>
+{
+  constructor(message?: string) {
+    super(message ?? "Invalid URL");
+  }
+
+  async validate(value: string) {
+    try {
+      new URL(value);
+    } catch {
+      throw new ValidationError(this.message);
+    }
+  }
+}
+
+export function url(message?: string) {
+  return new UrlValidation(message);
+}
+
+// Whether `file` matches one of the `accept` attribute style `types`, eg.
+// `.pdf`, `image/*` or `image/png`
+function acceptsFile(file: File, types: string[]) {
+  const name = file.name.toLowerCase();
+  const mime = file.type.toLowerCase();
+  return types.some((type) => {
+    type = type.toLowerCase();
+    if (type.startsWith(".")) return name.endsWith(type);
+    if (type.endsWith("/*")) return mime.startsWith(type.slice(0, -1));
+    return mime === type;
+  });
+}
+
+export class AcceptValidation
+  extends AbstractValidation
+  implements Validation<File[]>
+{
+  readonly types: string[];
+  constructor(types: string | string[], message?: string) {
+    const list = (typeof types === "string" ? types.split(",") : types)
+      .map((type) => type.trim())
+      .filter(Boolean);
+    super(message ?? `Allowed file types are ${list.join(", ")}`);
+    this.types = list;
+  }
+
+  async validate(value: File[]) {
+    if (!value.every((file) => acceptsFile(file, this.types))) {
+      throw new ValidationError(this.message);
+    }
+  }
+}
+
+export function accept(types: string | string[], message?: string) {
+  return new AcceptValidation(types, message);
+}
+
+export class MaxSizeValidation
+  extends AbstractValidation
+  implements Validation<File[]>
+{
+  constructor(
+    public readonly size: number,
+    message?: string,
+  ) {
+    super(message ?? `Maximum file size is ${size} bytes`);
+  }
+
+  async validate(value: File[]) {
+    if (value.some((file) => file.size > this.size)) {
+      throw new ValidationError(this.message);
+    }
+  }
+}
+
+/**
+ * Limits the size of every file to `size` bytes
+ */
+export function maxSize(size: number, message?: string) {
+  return new MaxSizeValidation(size, message);
+}
+
+export class MaxFilesValidation
+  extends AbstractValidation
+  implements Validation<File[]>
+{
+  constructor(
+    public readonly count: number,
+    message?: string,
+  ) {
+    super(message ?? `Maximum number of files is ${count}`);
+  }
+
+  async validate(value: File[]) {
+    if (value.length > this.count) {
+      throw new ValidationError(this.message);
+    }
+  }
+}
+
+export function maxFiles(count: number, message?: string) {
+  return new MaxFilesValidation(count, message);
+}
+
+export type ValidationMessages =
+  | string
+  | ValidationError
+  | (string | ValidationError)[];
+
+export function toValidationErrors(
+  messages: ValidationMessages | undefined,
+): ValidationError[] {
+  if (messages === undefined) return [];
+  return (Array.isArray(messages) ? messages : [messages]).map((m) =>
+    m instanceof ValidationError ? m : new ValidationError(m),
+  );
+}
+
+export interface FormValidationResult<T> {
+  /**
+   * Errors attached to individual fields, keyed by path
+   */
+  fields?: { [P in Path<T>]?: ValidationMessages };
+  /**
+   * Errors for the form as a whole
+   */
+  form?: ValidationMessages;
+}
+
+/**
+ * Thrown from a submit function to report errors found by the server, eg.
+ * from a 422 response. Field errors are attached to the fields at their
+ * paths, and form errors to the form.
+ */
+export class SubmissionError<T = any> extends Error {
+  readonly errors: FormValidationResult<T>;
+
+  constructor(errors: FormValidationResult<T>, message = "Submission failed") {
+    super(message);
+    this.errors = errors;
+  }
+}
+
+/**
+ * A validation over the whole form value. Throwing a `ValidationError` is
+ * the same as returning it as a form error.
+ */
+export interface FormValidation<T> {
+  /**
+   * Paths read by the validation. Once it has run, it runs again when one of
+   * them changes.
+   */
+  dependencies?: Path<T>[];
+  /**
+   * `signal` is aborted when a newer run of the validation starts
+   */
+  validate(
+    values: T,
+    signal?: AbortSignal,
+  ): Promise<FormValidationResult<T> | void>;
+}
+
+/**
+ * Resolves after `ms`, or as soon as `signal` is aborted
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+}
@@ -0,0 +1,141 @@
+import { describe, test, expect, vi } from "vitest";
+import { batch, isBatching } from "./batch";
+import { EventEmitter } from "./emitter";
+import { ObservableList } from "./list";
+import { ObservableObject } from "./object";
+import { Value } from "./value";
+
+describe("batch", () => {
+  test("should defer notifications until the batch ends", () => {
+    const list = new ObservableList<number>();
+    const listener = vi.fn();
+    list.on("change", listener);
+
+    batch(() => {
+      list.push(1);
+      list.push(2);
+      expect(isBatching()).toBe(true);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    expect(isBatching()).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenNthCalledWith(1, { type: "push", items: [1] });
+  });
+
+  test("should coalesce changes of the same key", () => {
+    const obj = new ObservableObject({ name: "a", age: 1 });
+    const listener = vi.fn();
+    const nameListener = vi.fn();
+    obj.on("change", listener);
+    obj.on("change:name", nameListener);
+
+    batch(() => {
+      obj.set("name", "b");
+      obj.set("age", 2);
+      obj.set("name", "c");
+    });
+
+    expect(nameListener).toHaveBeenCalledTimes(1);
+    expect(nameListener).toHaveBeenCalledWith({ prev: "a", value: "c" });
+    expect(listener.mock.calls).toEqual([
+      [{ key: "name", prev: "a", value: "c" }],
+      [{ key: "age", prev: 1, value: 2 }],
+    ]);
+  });
+
+  test("should drop changes which cancel out", () => {
+    const value = new Value(1);
+    const listener = vi.fn();
+    value.on("change", listener);
+
+    batch(() => {
+      value.set(2);
+      value.set(1);
+    });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("should flush at the end of the outermost batch", () => {
+    const value = new Value(1);
+    const listener = vi.fn();
+    value.on("change", listener);
+
+    batch(() => {
+      batch(() => value.set(2));
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test("should batch notifications made by listeners", () => {
+    const source = new Value(1);
+    const target = new Value(0);
+    const listener = vi.fn();
+    target.on("change", listener);
+    source.on("change", (e) => {
+      target.set(e.value! * 10);
+      target.set(e.value! * 100);
+    });
+
+    batch(() => source.set(2));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ prev: 0, value: 200 });
+  });
+
+  test("should pass the change set to commit", () => {
+    const value = new Value(1);
+    const list = new ObservableList<number>();
+    const outer = vi.fn();
+    const inner = vi.fn();
+
+    batch(() => {
+      value.set(2);
+      batch(() => list.push(1), inner);
+      expect(inner).not.toHaveBeenCalled();
+    }, outer);
+
+    const changes = [
+      {
+        target: value,
+        event: "change",
+        payload: { prev: 1, value: 2 },
+      },
+      {
+        target: list,
+        event: "change",
+        payload: { type: "push", items: [1] },
+      },
+      {
+        target: list,
+        event: "deepChange",
+        payload: { path: [], change: { type: "push", items: [1] } },
+      },
+    ];
+    expect(outer).toHaveBeenCalledWith(changes);
+    expect(inner).toHaveBeenCalledWith(changes);
+  });
+
+  test("should deliver changes when the function throws", () => {
+    const emitter = new EventEmitter<{ change: number }>();
+    const listener = vi.fn();
+    emitter.on("change", listener);
+
+    expect(() =>
+      batch(() => {
+        emitter.emit("change", 1);
+        throw new Error("failed");
+      }),
+    ).toThrow("failed");
+
+    expect(listener).toHaveBeenCalledWith(1);
+    expect(isBatching()).toBe(false);
+  });
+
+  test("should return the result of the function", () => {
+    expect(batch(() => 42)).toBe(42);
+  });
+});
@@ -0,0 +1,163 @@
+import { Equality, isEqual } from "./util.js";
+
+/**
+ * A notification made during a batch
+ */
+export interface Change {
+  target: object;
+  event: PropertyKey;
+  payload: unknown;
+}
+
+/**
+ * The notifications delivered by a batch, in order
+ */
+export type ChangeSet = readonly Change[];
+
+/**
+ * Merges two notifications of `event` made by the same emitter during a
+ * batch. Returns the notification replacing both, `null` when they cancel
+ * out, or `undefined` to deliver both.
+ */
+export type Coalesce<T> = <K extends keyof T>(
+  event: K,
+  prev: T[K],
+  next: T[K],
+) => T[K] | null | undefined;
+
+interface Pending extends Change {
+  deliver: (payload: any) => void;
+  coalesce: Coalesce<any> | undefined;
+  cancelled: boolean;
+}
+
+let depth = 0;
+let queue: Pending[] = [];
+// Index of the notification being delivered, those before it are done
+let cursor = -1;
+let commits = new Set<(changes: ChangeSet) => void>();
+
+/**
+ * Whether notifications are currently deferred by `batch`
+ */
+export function isBatching() {
+  return depth > 0;
+}
+
+/**
+ * Runs `fn`, deferring the notifications of every emitter until the
+ * outermost batch ends. Notifications of the same event are coalesced where
+ * the emitter allows it, eg. a value set twice notifies once. Listeners
+ * reacting to the delivered notifications are batched too.
+ *
+ * `commit` is called once everything has been delivered, with the combined
+ * change set of the outermost batch.
+ */
+export function batch<R>(
+  fn: () => R,
+  commit?: (changes: ChangeSet) => void,
+): R {
+  if (commit) commits.add(commit);
+
+  depth++;
+  if (depth > 1) {
+    try {
+      return fn();
+    } finally {
+      depth--;
+    }
+  }
+
+  try {
+    return fn();
+  } finally {
+    let changes: ChangeSet;
+    let pending: Set<(changes: ChangeSet) => void>;
+    try {
+      changes = flush();
+    } finally {
+      depth--;
+      pending = commits;
+      commits = new Set();
+    }
+    for (const commit of pending) {
+      commit(changes);
+    }
+  }
+}
+
+/**
+ * Queues a notification of `target`. Used by `EventEmitter` while batching.
+ */
+export function defer<T, K extends keyof T>(
+  target: object,
+  event: K,
+  payload: T[K],
+  deliver: (payload: T[K]) => void,
+  coalesce?: Coalesce<T>,
+) {
+  if (coalesce) {
+    for (let i = queue.length - 1; i > cursor; i--) {
+      const entry = queue[i];
+      if (entry.target !== target || entry.event !== event || entry.cancelled) {
+        continue;
+      }
+
+      const merged = coalesce(event, entry.payload as T[K], payload);
+      if (merged === undefined) continue;
+      if (merged === null) {
+        entry.cancelled = true;
+      } else {
+        entry.payload = merged;
+      }
+      return;
+    }
+  }
+
+  queue.push({ target, event, payload, deliver, coalesce, cancelled: false });
+}
+
+function flush(): ChangeSet {
+  try {
+    for (cursor = 0; cursor < queue.length; cursor++) {
+      const entry = queue[cursor];
+      if (!entry.cancelled) entry.deliver(entry.payload);
+    }
+    return queue
+      .filter((entry) => !entry.cancelled)
+      .map(({ target, event, payload }) => ({ target, event, payload }));
+  } finally {
+    queue = [];
+    cursor = -1;
+  }
+}
+
+/**
+ * Coalesces notifications carrying `prev` and `value`, and a `key` if any,
+ * into one going from the first `prev` to the last `value`. Changes ending
+ * where they started cancel out.
+ */
+export function coalesceChanges<T>(
+  equal: Equality<any> = isEqual,
+): Coalesce<T> {
+  return (_event, prev: any, next: any): any => {
+    if (!isChange(prev) || !isChange(next) || prev.key !== next.key) {
+      return undefined;
+    }
+    const merged = { ...next, prev: prev.prev };
+    return equal(merged.prev, merged.value) ? null : merged;
+  };
+}
+
+function isChange(payload: unknown): payload is {
+  prev: unknown;
+  value: unknown;
+  key?: unknown;
+} {
+  return (
+    payload != null &&
+    typeof payload === "object" &&
+    "prev" in payload &&
+    "value" in payload
+  );
+}
@@ -369,3 +369,194 @@ describe("Collection - Integration Tests", () => {
     expect(listener).toHaveBeenCalledTimes(1); // Should not be called again
   });
 });
+
+type Item = Model<{ id: number; name: string; group: string }, "id">;
+
+function item(id: number, name: string, group = "a"): Item {
+  return new Model({ primaryKey: "id", values: { id, name, group } });
+}
+
+describe("Collection - Indexes", () => {
+  test("should keep the id index in sync with list operations", () => {
+    const [a, b, c, d] = [
+      item(1, "A"),
+      item(2, "B"),
+      item(3, "C"),
+      item(4, "D"),
+    ];
+    const collection = new Collection([a]);
+
+    collection.push(b, c);
+    collection.insert(0, d);
+    expect(collection.get(4)).toBe(d);
+
+    collection.set(0, item(5, "E"));
+    expect(collection.get(4)).toBeUndefined();
+    expect(collection.get(5)?.get("name")).toBe("E");
+
+    collection.pop();
+    expect(collection.get(3)).toBeUndefined();
+
+    collection.remove(1);
+    expect(collection.get(1)).toBeUndefined();
+    expect(collection.get(2)).toBe(b);
+  });
+
+  test("should follow changes of the id", () => {
+    const model = item(1, "A");
+    const collection = new Collection([model]);
+
+    model.set("id", 10);
+
+    expect(collection.get(1)).toBeUndefined();
+    expect(collection.get(10)).toBe(model);
+  });
+
+  test("should find models in the index when notified", () => {
+    const collection = new Collection<Item>();
+    const found = vi.fn();
+    collection.on("change", () => found(collection.get(1)));
+
+    const model = item(1, "A");
+    collection.push(model);
+
+    expect(found).toHaveBeenCalledWith(model);
+  });
+
+  test("should stop following removed models", () => {
+    const model = item(1, "A");
+    const collection = new Collection([model]);
+    collection.remove(0);
+
+    model.set("id", 2);
+    expect(collection.get(2)).toBeUndefined();
+  });
+
+  test("should look up models in secondary indexes", () => {
+    const [a, b, c] = [item(1, "A", "x"), item(2, "B", "y"), item(3, "C", "x")];
+    const collection = new Collection([a, b, c], {
+      indexes: { group: (model) => model.get("group") },
+    });
+
+    expect(collection.lookup("group", "x")).toEqual([a, c]);
+
+    b.set("group", "x");
+    collection.remove(0);
+
+    expect(collection.lookup("group", "x")).toEqual([c, b]);
+    expect(collection.lookup("group", "y")).toEqual([]);
+  });
+});
+
+describe("Collection - Keyed helpers", () => {
+  test("add should push and reject duplicate ids", () => {
+    const collection = new Collection<Item>();
+    const listener = vi.fn();
+    collection.on("change", listener);
+
+    const model = item(1, "A");
+    expect(collection.add(model)).toBe(model);
+    expect(listener).toHaveBeenCalledWith({ type: "push", items: [model] });
+
+    expect(() => collection.add(item(1, "B"))).toThrow("Duplicate id: 1");
+    expect(collection.length).toBe(1);
+  });
+
+  test("upsert should replace a model with the same id", () => {
+    const prev = item(1, "A");
+    const collection = new Collection([item(0, "Z"), prev]);
+    const listener = vi.fn();
+    collection.on("change", listener);
+
+    const next = item(1, "B");
+    collection.upsert(next);
+
+    expect(listener).toHaveBeenCalledWith({
+      type: "set",
+      item: next,
+      prev,
+      index: 1,
+    });
+    expect(collection.get(1)).toBe(next);
+
+    collection.upsert(item(2, "C"));
+    expect(collection.length).toBe(3);
+  });
+
+  test("removeById should remove the model", () => {
+    const model = item(2, "B");
+    const collection = new Collection([item(1, "A"), model]);
+    const listener = vi.fn();
+    collection.on("change", listener);
+
+    expect(collection.removeById(2)).toBe(model);
+    expect(collection.removeById(2)).toBeUndefined();
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      type: "remove",
+      item: model,
+      index: 1,
+    });
+  });
+});
+
+describe("Collection - Sorting", () => {
+  const byName = (a: Item, b: Item) =>
+    a.get("name")!.localeCompare(b.get("name")!);
+  const names = (collection: Collection<Item>) =>
+    collection.toJSON().map((model) => model.get("name"));
+
+  test("should sort the initial models", () => {
+    const collection = new Collection([item(1, "C"), item(2, "A")], {
+      comparator: byName,
+    });
+    expect(names(collection)).toEqual(["A", "C"]);
+  });
+
+  test("should add models in order", () => {
+    const collection = new Collection([item(1, "B"), item(2, "D")], {
+      comparator: byName,
+    });
+    const listener = vi.fn();
+    collection.on("change", listener);
+
+    const model = item(3, "C");
+    collection.add(model);
+    collection.push(item(4, "E"), item(5, "A"));
+
+    expect(names(collection)).toEqual(["A", "B", "C", "D", "E"]);
+    expect(listener).toHaveBeenCalledWith({
+      type: "insert",
+      item: model,
+      index: 1,
+    });
+  });
+
+  test("should move models when they change", () => {
+    const model = item(1, "A");
+    const collection = new Collection([model, item(2, "B"), item(3, "C")], {
+      comparator: byName,
+    });
+    const listener = vi.fn();
+    collection.on("change", listener);
+
+    model.set("name", "D");
+
+    expect(names(collection)).toEqual(["B", "C", "D"]);
+    expect(listener.mock.calls.map(([e]) => e.type)).toEqual([
+      "remove",
+      "push",
+    ]);
+  });
+
+  test("upsert should keep the order", () => {
+    const collection = new Collection([item(1, "A"), item(2, "B")], {
+      comparator: byName,
+    });
+
+    collection.upsert(item(1, "C"));
+
+    expect(names(collection)).toEqual(["B", "C"]);
+    expect(collection.get(1)?.get("name")).toBe("C");
+  });
+});
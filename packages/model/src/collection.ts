@@ -1,8 +1,278 @@
+import { batch } from "./batch.js";
+import type { ObservableOptions } from "./deep.js";
+import type { Subscription } from "./emitter.js";
 import { ObservableList } from "./list.js";
 import { Model, PrimaryKeyValue } from "./model.js";
 
-export class Collection<M extends Model<any, any>> extends ObservableList<M> {
+export interface CollectionOptions<
+  M,
+  I extends string,
+> extends ObservableOptions {
+  /**
+   * Keeps the collection sorted. `add`, `upsert` and `push` place models in
+   * order, and models move when their values change. `set` and `insert`
+   * place models where they are told.
+   *
+   * Finding the position of a changed model scans the collection, so every
+   * change of a model costs O(n).
+   */
+  comparator?: (a: M, b: M) => number;
+  /**
+   * Secondary indexes by name, each giving the key of a model, see `lookup`
+   */
+  indexes?: { [K in I]: (model: M) => unknown };
+}
+
+/**
+ * A list of models, indexed by their ids. Indexes follow the changes of the
+ * models as they are notified, ie. at the end of a `batch`.
+ */
+export class Collection<
+  M extends Model<any, any>,
+  I extends string = never,
+> extends ObservableList<M> {
+  #byId = new Index<M>((model) => model.id);
+  #indexes = new Map<string, Index<M>>();
+  #comparator: ((a: M, b: M) => number) | undefined;
+  #subscriptions = new Map<M, { count: number; unsubscribe: Subscription }>();
+
+  constructor(models: M[] = [], options: CollectionOptions<M, I> = {}) {
+    const comparator = options.comparator;
+    super(comparator ? [...models].sort(comparator) : models, options);
+    this.#comparator = comparator;
+    for (const name in options.indexes) {
+      this.#indexes.set(name, new Index(options.indexes[name]));
+    }
+    for (const model of this) {
+      this.#track(model);
+    }
+  }
+
   get(id: NonNullable<PrimaryKeyValue<M>>): M | undefined {
-    return this.find((item) => item.id === id);
+    return this.#byId.get(id)[0];
+  }
+
+  has(id: NonNullable<PrimaryKeyValue<M>>) {
+    return this.get(id) !== undefined;
+  }
+
+  /**
+   * The models whose key in the index `name` is `key`
+   */
+  lookup(name: I, key: unknown): M[] {
+    const index = this.#indexes.get(name);
+    if (!index) {
+      throw new RangeError(`Unknown index: ${name}`);
+    }
+    return index.get(key);
+  }
+
+  set(index: number, model: M) {
+    if (index >= this.length || index < 0) {
+      throw new RangeError("Invalid index");
+    }
+
+    const prev = this.at(index)!;
+    this.#track(model);
+    this.#untrack(prev);
+    super.set(index, model);
+  }
+
+  insert(index: number, model: M) {
+    if (index >= this.length || index < 0) {
+      throw new RangeError("Invalid index");
+    }
+
+    this.#track(model);
+    super.insert(index, model);
+  }
+
+  push(...models: M[]) {
+    if (this.#comparator) {
+      batch(() => models.forEach((model) => this.#insertSorted(model)));
+      return;
+    }
+
+    models.forEach((model) => this.#track(model));
+    super.push(...models);
+  }
+
+  pop() {
+    const model = this.at(this.length - 1);
+    if (model) this.#untrack(model);
+    return super.pop();
+  }
+
+  remove(index: number) {
+    const model = index >= 0 ? this.at(index) : undefined;
+    if (model) this.#untrack(model);
+    return super.remove(index);
+  }
+
+  /**
+   * Adds `model`, in order when the collection is sorted. Throws when a
+   * model with the same id is present.
+   */
+  add(model: M) {
+    if (model.id !== undefined && this.has(model.id)) {
+      throw new Error(`Duplicate id: ${String(model.id)}`);
+    }
+
+    this.push(model);
+    return model;
+  }
+
+  /**
+   * Replaces the model with the id of `model`, or adds `model` when there
+   * is none. The model is found by id, but its position by a scan, O(n).
+   */
+  upsert(model: M) {
+    const existing = model.id === undefined ? undefined : this.get(model.id);
+    if (!existing) return this.add(model);
+    if (existing === model) return model;
+
+    batch(() => {
+      const index = this.indexOf(existing);
+      this.set(index, model);
+      this.#reposition(model, index);
+    });
+    return model;
+  }
+
+  /**
+   * Removes the model with `id`, if any. The model is found by id, but its
+   * position by a scan, O(n).
+   */
+  removeById(id: NonNullable<PrimaryKeyValue<M>>): M | undefined {
+    const model = this.get(id);
+    if (!model) return undefined;
+    return this.remove(this.indexOf(model));
+  }
+
+  // Indexes are updated before the change is emitted, so listeners find
+  // the models where they are
+  #track(model: M) {
+    const entry = this.#subscriptions.get(model);
+    if (entry) {
+      entry.count++;
+      return;
+    }
+
+    this.#subscriptions.set(model, {
+      count: 1,
+      unsubscribe: model.on("change", () => this.#reindex(model)),
+    });
+    this.#byId.add(model);
+    this.#indexes.forEach((index) => index.add(model));
+  }
+
+  #untrack(model: M) {
+    const entry = this.#subscriptions.get(model);
+    if (!entry || --entry.count) return;
+
+    entry.unsubscribe();
+    this.#subscriptions.delete(model);
+    this.#byId.delete(model);
+    this.#indexes.forEach((index) => index.delete(model));
+  }
+
+  #reindex(model: M) {
+    this.#byId.update(model);
+    this.#indexes.forEach((index) => index.update(model));
+    this.#reposition(model);
+  }
+
+  #insertSorted(model: M) {
+    this.#track(model);
+    const index = this.#sortedIndex(model);
+    if (index === this.length) {
+      super.push(model);
+    } else {
+      super.insert(index, model);
+    }
+  }
+
+  // Moves `model`, at `index` when known, to its place in a sorted
+  // collection
+  #reposition(model: M, index?: number) {
+    const compare = this.#comparator;
+    if (!compare) return;
+
+    index ??= this.indexOf(model);
+    if (index < 0) return;
+    const prev = this.at(index - 1);
+    const next = this.at(index + 1);
+    if (
+      (index === 0 || compare(prev!, model) <= 0) &&
+      (next === undefined || compare(model, next) <= 0)
+    ) {
+      return;
+    }
+
+    batch(() => {
+      super.remove(index);
+      const to = this.#sortedIndex(model);
+      if (to === this.length) {
+        super.push(model);
+      } else {
+        super.insert(to, model);
+      }
+    });
+  }
+
+  // The index after the models ordered before or with `model`
+  #sortedIndex(model: M) {
+    const compare = this.#comparator!;
+    let low = 0;
+    let high = this.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (compare(this.at(middle)!, model) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
+
+class Index<M> {
+  #key: (model: M) => unknown;
+  #keys = new Map<M, unknown>();
+  #models = new Map<unknown, Set<M>>();
+
+  constructor(key: (model: M) => unknown) {
+    this.#key = key;
+  }
+
+  get(key: unknown): M[] {
+    return [...(this.#models.get(key) ?? [])];
+  }
+
+  add(model: M) {
+    const key = this.#key(model);
+    this.#keys.set(model, key);
+    let models = this.#models.get(key);
+    if (!models) {
+      models = new Set();
+      this.#models.set(key, models);
+    }
+    models.add(model);
+  }
+
+  delete(model: M) {
+    if (!this.#keys.has(model)) return;
+    const key = this.#keys.get(model);
+    this.#keys.delete(model);
+    const models = this.#models.get(key);
+    models?.delete(model);
+    if (!models?.size) this.#models.delete(key);
+  }
+
+  update(model: M) {
+    if (this.#keys.get(model) === this.#key(model)) return;
+    this.delete(model);
+    this.add(model);
   }
 }
@@ -0,0 +1,122 @@
+import { describe, test, expect, vi } from "vitest";
+import { ObservableList } from "./list";
+import { Model } from "./model";
+import { ObservableObject } from "./object";
+
+function address(city: string) {
+  return new ObservableObject({ city }, undefined, { deep: true });
+}
+
+describe("deep observables", () => {
+  test("should report own changes with their path", () => {
+    const obj = new ObservableObject({ name: "a" });
+    const listener = vi.fn();
+    obj.on("deepChange", listener);
+
+    obj.set("name", "b");
+
+    expect(listener).toHaveBeenCalledWith({
+      path: ["name"],
+      change: { key: "name", prev: "a", value: "b" },
+    });
+  });
+
+  test("should bubble nested changes with the full path", () => {
+    const addresses = new ObservableList(
+      [address("Oslo"), address("Bergen"), address("Aarhus")],
+      { deep: true },
+    );
+    const person = new Model({
+      primaryKey: "id",
+      values: { id: 1, addresses },
+      deep: true,
+    });
+    const listener = vi.fn();
+    person.on("deepChange", listener);
+
+    addresses.at(2)!.set("city", "Odense");
+
+    expect(listener).toHaveBeenCalledWith({
+      path: ["addresses", 2, "city"],
+      change: { key: "city", prev: "Aarhus", value: "Odense" },
+    });
+  });
+
+  test("should report list changes with the path of the list", () => {
+    const obj = new ObservableObject(
+      { tags: new ObservableList<string>() },
+      undefined,
+      { deep: true },
+    );
+    const listener = vi.fn();
+    obj.on("deepChange", listener);
+
+    obj.get("tags").push("a");
+    obj.get("tags").set(0, "b");
+
+    expect(listener.mock.calls).toEqual([
+      [{ path: ["tags"], change: { type: "push", items: ["a"] } }],
+      [
+        {
+          path: ["tags", 0],
+          change: { type: "set", item: "b", prev: "a", index: 0 },
+        },
+      ],
+    ]);
+  });
+
+  test("should use the current index of list items", () => {
+    const first = address("Oslo");
+    const second = address("Bergen");
+    const list = new ObservableList([first, second], { deep: true });
+    const listener = vi.fn();
+    list.on("deepChange", listener);
+
+    list.remove(0);
+    second.set("city", "Trondheim");
+
+    expect(listener).toHaveBeenLastCalledWith({
+      path: [0, "city"],
+      change: { key: "city", prev: "Bergen", value: "Trondheim" },
+    });
+  });
+
+  test("should unsubscribe from replaced children", () => {
+    const prev = address("Oslo");
+    const obj = new ObservableObject({ address: prev }, undefined, {
+      deep: true,
+    });
+    const listener = vi.fn();
+    obj.on("deepChange", listener);
+
+    obj.set("address", address("Bergen"));
+    listener.mockClear();
+    prev.set("city", "Aarhus");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("should unsubscribe from removed items", () => {
+    const item = address("Oslo");
+    const list = new ObservableList([item], { deep: true });
+    const listener = vi.fn();
+    list.on("deepChange", listener);
+
+    list.pop();
+    listener.mockClear();
+    item.set("city", "Bergen");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("should not observe children unless deep", () => {
+    const child = address("Oslo");
+    const obj = new ObservableObject({ address: child });
+    const listener = vi.fn();
+    obj.on("deepChange", listener);
+
+    child.set("city", "Bergen");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+import type { IEventEmitter, Subscription } from "./emitter.js";
+import type { ListChangeEvent } from "./list.js";
+
+export type ChangePath = (string | number)[];
+
+/**
+ * A change somewhere below an observable
+ */
+export interface DeepChangeEvent {
+  /**
+   * Path of the changed value, eg. `["addresses", 2, "city"]`. List changes
+   * of a single item have the path of the item, while `push` has the path of
+   * the list.
+   */
+  path: ChangePath;
+  /**
+   * The change, as emitted by the observable which changed
+   */
+  change:
+    | { key: PropertyKey; prev: unknown; value: unknown }
+    | ListChangeEvent<unknown>;
+}
+
+/**
+ * `deepChange` is emitted along with `change`, except for popping an empty
+ * list, which changes nothing
+ */
+export interface DeepEvents {
+  deepChange: DeepChangeEvent;
+}
+
+export interface ObservableOptions {
+  /**
+   * Subscribe to observables held as values and report their changes as
+   * `deepChange` events. Nested observables report their own children only
+   * when they are deep too.
+   */
+  deep?: boolean;
+}
+
+export const DEEP = Symbol("MODEL_DEEP");
+
+export function isDeepObservable(
+  value: unknown,
+): value is IEventEmitter<DeepEvents> {
+  return value != null && typeof value === "object" && DEEP in value;
+}
+
+/**
+ * Tracks the subscriptions to the observable children of a deep observable.
+ * A child held in several places is subscribed to once.
+ */
+export class Children {
+  #subscriptions = new Map<
+    object,
+    { count: number; unsubscribe: Subscription }
+  >();
+  #listener: (child: object, event: DeepChangeEvent) => void;
+
+  constructor(listener: (child: object, event: DeepChangeEvent) => void) {
+    this.#listener = listener;
+  }
+
+  add(value: unknown) {
+    if (!isDeepObservable(value)) return;
+    const entry = this.#subscriptions.get(value);
+    if (entry) {
+      entry.count++;
+    } else {
+      this.#subscriptions.set(value, {
+        count: 1,
+        unsubscribe: value.on("deepChange", (e) => this.#listener(value, e)),
+      });
+    }
+  }
+
+  delete(value: unknown) {
+    if (!isDeepObservable(value)) return;
+    const entry = this.#subscriptions.get(value);
+    if (entry && --entry.count === 0) {
+      entry.unsubscribe();
+      this.#subscriptions.delete(value);
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, test, expect, vi } from "vitest";
+import {
+  boolean,
+  date,
+  defineModel,
+  DefinedModel,
+  list,
+  model,
+  number,
+  string,
+} from "./define";
+import { ObservableList } from "./list";
+
+const Address = defineModel({
+  city: string({ required: true }),
+  zip: string({
+    validate: (zip) => (/^\d{4}$/.test(zip) ? undefined : "Invalid zip"),
+  }),
+});
+
+const User = defineModel({
+  id: string(),
+  name: string({ default: "" }),
+  age: number({ validate: (age) => (age < 0 ? "Too young" : undefined) }),
+  active: boolean({ default: true }),
+  born: date(),
+  tags: list(string()),
+  address: model(Address),
+});
+
+describe("defineModel", () => {
+  test("should create models with defaults", () => {
+    const user = new User();
+
+    expect(user).toBeInstanceOf(DefinedModel);
+    expect(user.primaryKey).toBe("id");
+    expect(user.get("name")).toBe("");
+    expect(user.get("active")).toBe(true);
+    expect(user.get("age")).toBeUndefined();
+    expect(user.get("tags")).toBeInstanceOf(ObservableList);
+    expect(user.get("tags")!.length).toBe(0);
+  });
+
+  test("should give every model its own default list", () => {
+    expect(new User().get("tags")).not.toBe(new User().get("tags"));
+  });
+
+  test("should coerce values", () => {
+    const user = new User({
+      id: "1",
+      age: "42" as any,
+      born: "2000-01-02" as any,
+    });
+
+    expect(user.id).toBe("1");
+    expect(user.get("age")).toBe(42);
+    expect(user.get("born")).toEqual(new Date("2000-01-02"));
+
+    user.set("age", "" as any);
+    expect(user.get("age")).toBeUndefined();
+    expect(() => user.set("age", "old" as any)).toThrow(TypeError);
+  });
+
+  test("should validate fields", () => {
+    const user = new User({ age: -1, address: { zip: "12" } });
+
+    expect(user.isValid).toBe(false);
+    expect(user.validate()).toEqual({
+      age: ["Too young"],
+      address: ["city: Required", "zip: Invalid zip"],
+    });
+
+    user.set("age", 1);
+    user.get("address")!.set("city", "Oslo");
+    user.get("address")!.set("zip", "0150");
+    expect(user.isValid).toBe(true);
+  });
+
+  test("should validate list items", () => {
+    const Order = defineModel({
+      lines: list(number({ validate: (n) => (n > 0 ? undefined : "Empty") })),
+    });
+
+    expect(new Order({ lines: [1, 0] }).validate()).toEqual({
+      lines: ["1: Empty"],
+    });
+  });
+
+  test("should round trip through JSON", () => {
+    const user = new User({
+      id: "1",
+      name: "John",
+      born: new Date("2000-01-02T00:00:00.000Z"),
+      tags: ["a", "b"],
+      address: { city: "Oslo" },
+    });
+
+    const restored = User.fromJSON(JSON.parse(JSON.stringify(user)));
+
+    expect(restored).toBeInstanceOf(User);
+    expect(restored.get("born")).toEqual(user.get("born"));
+    expect(restored.get("tags")!.toJSON()).toEqual(["a", "b"]);
+    expect(restored.get("address")).toBeInstanceOf(Address);
+    expect(restored.get("address")!.get("city")).toBe("Oslo");
+  });
+
+  test("should reject data which is not an object", () => {
+    expect(() => User.fromJSON([])).toThrow(TypeError);
+  });
+
+  test("should report nested changes", () => {
+    const user = new User({ address: { city: "Oslo" } });
+    const listener = vi.fn();
+    user.on("deepChange", listener);
+
+    user.get("tags")!.push("a");
+    user.get("address")!.set("city", "Bergen");
+
+    expect(listener.mock.calls.map(([e]) => e.path)).toEqual([
+      ["tags"],
+      ["address", "city"],
+    ]);
+  });
+
+  test("should use the given primary key", () => {
+    const Tag = defineModel({ slug: string() }, { primaryKey: "slug" });
+
+    expect(new Tag({ slug: "news" }).id).toBe("news");
+  });
+});
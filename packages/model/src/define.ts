@@ -0,0 +1,297 @@
+import { ObservableList } from "./list.js";
+import { Model } from "./model.js";
+
+/**
+ * Describes a field of a model declared with `defineModel`. `T` is the value
+ * held by models.
+ */
+export interface FieldType<T> {
+  readonly kind: "string" | "number" | "boolean" | "date" | "list" | "model";
+  readonly required: boolean;
+  /**
+   * The type of the items of a list
+   */
+  readonly item?: FieldType<unknown>;
+  /**
+   * The fields of a nested model
+   */
+  readonly fields?: ModelFields;
+  /**
+   * The value of the field in new models
+   */
+  defaultValue(): T | undefined;
+  /**
+   * Converts `input`, eg. parsed JSON or the text of a control, to a value.
+   * `null`, `undefined` and blank text give `undefined`. Throws a `TypeError`
+   * for input which cannot be converted.
+   */
+  coerce(input: unknown): T | undefined;
+  /**
+   * Error messages for `value`, empty when it is valid
+   */
+  validate(value: T | undefined): string[];
+}
+
+export interface FieldTypeOptions<T> {
+  /**
+   * The value in new models, as plain data. Functions are called for every
+   * model.
+   */
+  default?: Plain<T> | (() => Plain<T>);
+  required?: boolean;
+  /**
+   * Returns an error message when `value` is invalid
+   */
+  validate?: (value: T) => string | undefined;
+}
+
+export type ModelFields = { [key: string]: FieldType<any> };
+
+export type FieldValue<F> = F extends FieldType<infer T> ? T : never;
+
+/**
+ * The values held by models with `F`
+ */
+export type ModelValues<F extends ModelFields> = {
+  [K in keyof F]: FieldValue<F[K]> | undefined;
+};
+
+/**
+ * `T` without observables, as found in JSON and forms
+ */
+export type Plain<T> =
+  T extends ObservableList<infer E>
+    ? Plain<E>[]
+    : T extends DefinedModel<infer F, any>
+      ? ModelData<F>
+      : T;
+
+/**
+ * The plain data of models with `F`
+ */
+export type ModelData<F extends ModelFields> = {
+  [K in keyof F]?: Plain<FieldValue<F[K]>>;
+};
+
+export type ModelErrors<F extends ModelFields> = {
+  [K in keyof F]?: string[];
+};
+
+function fieldType<T>(
+  kind: FieldType<T>["kind"],
+  options: FieldTypeOptions<T>,
+  convert: (input: unknown) => T | undefined,
+  validateValue?: (value: T) => string[],
+): FieldType<T> {
+  const required = options.required ?? false;
+  const type: FieldType<T> = {
+    kind,
+    required,
+    defaultValue() {
+      const value =
+        typeof options.default === "function"
+          ? (options.default as () => Plain<T>)()
+          : options.default;
+      return type.coerce(value);
+    },
+    coerce(input) {
+      if (input == null) return undefined;
+      return convert(input);
+    },
+    validate(value) {
+      if (value === undefined) return required ? ["Required"] : [];
+      const error = options.validate?.(value);
+      return [...(error ? [error] : []), ...(validateValue?.(value) ?? [])];
+    },
+  };
+  return type;
+}
+
+function blank(input: unknown) {
+  return typeof input === "string" && !input.trim();
+}
+
+function invalid(input: unknown, type: string): never {
+  throw new TypeError(`Cannot convert ${JSON.stringify(input)} to ${type}`);
+}
+
+export function string(options: FieldTypeOptions<string> = {}) {
+  return fieldType("string", options, (input) => {
+    if (typeof input === "string") return input;
+    if (typeof input === "number" || typeof input === "boolean") {
+      return String(input);
+    }
+    return invalid(input, "a string");
+  });
+}
+
+export function number(options: FieldTypeOptions<number> = {}) {
+  return fieldType("number", options, (input) => {
+    if (blank(input)) return undefined;
+    const value = typeof input === "string" ? Number(input) : input;
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      return invalid(input, "a number");
+    }
+    return value;
+  });
+}
+
+export function boolean(options: FieldTypeOptions<boolean> = {}) {
+  return fieldType("boolean", options, (input) => {
+    if (blank(input)) return undefined;
+    if (typeof input === "boolean") return input;
+    if (input === "true") return true;
+    if (input === "false") return false;
+    return invalid(input, "a boolean");
+  });
+}
+
+export function date(options: FieldTypeOptions<Date> = {}) {
+  return fieldType("date", options, (input) => {
+    if (blank(input)) return undefined;
+    const value =
+      typeof input === "string" || typeof input === "number"
+        ? new Date(input)
+        : input;
+    if (!(value instanceof Date) || Number.isNaN(value.getTime())) {
+      return invalid(input, "a date");
+    }
+    return value;
+  });
+}
+
+/**
+ * A list of `item`, held as a deep `ObservableList`. Lists default to being
+ * empty. Their validation covers the items.
+ */
+export function list<T>(
+  item: FieldType<T>,
+  options: FieldTypeOptions<ObservableList<T>> = {},
+) {
+  const type = fieldType<ObservableList<T>>(
+    "list",
+    { default: () => [], ...options },
+    (input) => {
+      if (input instanceof ObservableList) return input;
+      if (!Array.isArray(input)) return invalid(input, "a list");
+      return new ObservableList(
+        input.map((value) => item.coerce(value) as T),
+        { deep: true },
+      );
+    },
+    (value) =>
+      value
+        .toJSON()
+        .flatMap((entry, i) =>
+          item.validate(entry).map((message) => `${i}: ${message}`),
+        ),
+  );
+  return { ...type, item };
+}
+
+/**
+ * A nested model of `definition`. Its validation covers the nested fields.
+ */
+export function model<F extends ModelFields, PK extends keyof F>(
+  definition: ModelDefinition<F, PK>,
+  options: FieldTypeOptions<DefinedModel<F, PK>> = {},
+) {
+  const type = fieldType<DefinedModel<F, PK>>(
+    "model",
+    options,
+    (input) => {
+      if (input instanceof definition) return input;
+      return definition.fromJSON(input);
+    },
+    (value) =>
+      Object.entries(value.validate()).flatMap(([key, messages]) =>
+        (messages as string[]).map((message) => `${key}: ${message}`),
+      ),
+  );
+  return { ...type, fields: definition.fields };
+}
+
+/**
+ * A model with declared fields, see `defineModel`. Values are coerced to the
+ * type of their field when set.
+ */
+export class DefinedModel<
+  F extends ModelFields,
+  PK extends keyof F = keyof F,
+> extends Model<ModelValues<F>, PK> {
+  #fields: F;
+
+  constructor(fields: F, primaryKey: PK, data: ModelData<F> = {}) {
+    const values = {} as ModelValues<F>;
+    for (const key in fields) {
+      const type = fields[key];
+      values[key] = key in data ? type.coerce(data[key]) : type.defaultValue();
+    }
+    super({ primaryKey, values, deep: true });
+    this.#fields = fields;
+  }
+
+  get fields(): F {
+    return this.#fields;
+  }
+
+  set<K extends keyof F>(field: K, value: ModelValues<F>[K] | undefined) {
+    const type = this.#fields[field];
+    super.set(field, type ? type.coerce(value) : value);
+  }
+
+  /**
+   * Error messages per invalid field
+   */
+  validate(): ModelErrors<F> {
+    const errors: ModelErrors<F> = {};
+    for (const key in this.#fields) {
+      const messages = this.#fields[key].validate(this.get(key));
+      if (messages.length) errors[key] = messages;
+    }
+    return errors;
+  }
+
+  get isValid() {
+    return Object.keys(this.validate()).length === 0;
+  }
+}
+
+export interface ModelDefinition<F extends ModelFields, PK extends keyof F> {
+  new (data?: ModelData<F>): DefinedModel<F, PK>;
+  readonly fields: F;
+  readonly primaryKey: PK;
+  /**
+   * Creates a model from parsed JSON, coercing the values. `JSON.stringify`
+   * turns a model back into JSON.
+   */
+  fromJSON(data: unknown): DefinedModel<F, PK>;
+}
+
+/**
+ * Declares a model class with typed fields, eg.
+ * `defineModel({ id: string(), tags: list(string()) })`. The primary key
+ * defaults to `id`.
+ */
+export function defineModel<
+  F extends ModelFields,
+  PK extends keyof F & string = Extract<"id", keyof F>,
+>(fields: F, options: { primaryKey?: PK } = {}): ModelDefinition<F, PK> {
+  const primaryKey = (options.primaryKey ?? "id") as PK;
+
+  return class extends DefinedModel<F, PK> {
+    static readonly fields = fields;
+    static readonly primaryKey = primaryKey;
+
+    constructor(data?: ModelData<F>) {
+      super(fields, primaryKey, data);
+    }
+
+    static fromJSON(data: unknown) {
+      if (data == null || typeof data !== "object" || Array.isArray(data)) {
+        return invalid(data, "a model");
+      }
+      return new this(data as ModelData<F>);
+    }
+  };
+}
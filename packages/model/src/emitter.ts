@@ -1,3 +1,5 @@
+import { type Coalesce, defer, isBatching } from "./batch.js";
+
 export type Subscription = () => void;
 
 export interface IEventEmitter<T> {
@@ -9,12 +11,27 @@ export interface IEventEmitter<T> {
   off<K extends keyof T>(event: K, listener: (payload: T[K]) => void): void;
 }
 
+export interface EmitterOptions<T> {
+  /**
+   * Merges notifications deferred by `batch`
+   */
+  coalesce?: Coalesce<T>;
+  /**
+   * The target of deferred notifications in change sets, eg. the observable
+   * owning the emitter. Defaults to the emitter.
+   */
+  target?: object;
+}
+
 export class EventEmitter<T> implements IEventEmitter<T> {
   private listeners: {
     [K in keyof T]?: Array<(payload: T[K]) => void>;
   } = {};
+  private options: EmitterOptions<T>;
 
-  constructor() {}
+  constructor(options: EmitterOptions<T> = {}) {
+    this.options = options;
+  }
 
   on<K extends keyof T>(
     event: K,
@@ -35,6 +52,20 @@ export class EventEmitter<T> implements IEventEmitter<T> {
   }
 
   emit<K extends keyof T>(event: K, payload: T[K]) {
+    if (isBatching()) {
+      defer(
+        this.options.target ?? this,
+        event,
+        payload,
+        (payload) => this.dispatch(event, payload),
+        this.options.coalesce,
+      );
+    } else {
+      this.dispatch(event, payload);
+    }
+  }
+
+  private dispatch<K extends keyof T>(event: K, payload: T[K]) {
     if (!this.listeners[event]) return;
     for (const listener of this.listeners[event]!) {
       listener(payload);
@@ -0,0 +1,199 @@
+import { describe, test, expect, vi } from "vitest";
+import { History } from "./history";
+import { ObservableList } from "./list";
+import { ObservableObject } from "./object";
+
+describe("History - Objects", () => {
+  test("should undo and redo property changes", () => {
+    const history = new History();
+    const obj = new ObservableObject({ name: "John", age: 30 });
+    history.track(obj);
+
+    obj.set("name", "Jane");
+    obj.set("age", 31);
+
+    expect(history.undo()).toBe(true);
+    expect(obj.toJSON()).toEqual({ name: "Jane", age: 30 });
+
+    expect(history.undo()).toBe(true);
+    expect(obj.toJSON()).toEqual({ name: "John", age: 30 });
+    expect(history.canUndo).toBe(false);
+
+    expect(history.redo()).toBe(true);
+    expect(obj.toJSON()).toEqual({ name: "Jane", age: 30 });
+    expect(history.canRedo).toBe(true);
+  });
+
+  test("should not record changes made while replaying", () => {
+    const history = new History();
+    const obj = new ObservableObject({ name: "John" });
+    history.track(obj);
+
+    obj.set("name", "Jane");
+    history.undo();
+    history.redo();
+    history.undo();
+
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(true);
+  });
+
+  test("should drop redo steps on new changes", () => {
+    const history = new History();
+    const obj = new ObservableObject({ name: "John" });
+    history.track(obj);
+
+    obj.set("name", "Jane");
+    history.undo();
+    obj.set("name", "Alice");
+
+    expect(history.canRedo).toBe(false);
+    expect(history.redo()).toBe(false);
+  });
+
+  test("should stop recording when unsubscribed", () => {
+    const history = new History();
+    const obj = new ObservableObject({ name: "John" });
+    const unsubscribe = history.track(obj);
+
+    unsubscribe();
+    obj.set("name", "Jane");
+
+    expect(history.canUndo).toBe(false);
+  });
+});
+
+describe("History - Lists", () => {
+  test("should undo every kind of list change", () => {
+    const history = new History();
+    const list = new ObservableList([1, 2, 3]);
+    history.track(list);
+
+    list.push(4, 5);
+    list.set(0, 10);
+    list.insert(1, 20);
+    list.remove(2);
+    list.pop();
+    expect(list.toJSON()).toEqual([10, 20, 3, 4]);
+
+    const states: number[][] = [];
+    while (history.undo()) {
+      states.push(list.toJSON());
+    }
+
+    expect(states).toEqual([
+      [10, 20, 3, 4, 5],
+      [10, 20, 2, 3, 4, 5],
+      [10, 2, 3, 4, 5],
+      [1, 2, 3, 4, 5],
+      [1, 2, 3],
+    ]);
+
+    while (history.redo());
+    expect(list.toJSON()).toEqual([10, 20, 3, 4]);
+  });
+
+  test("should undo removing the last item", () => {
+    const history = new History();
+    const list = new ObservableList(["a", "b"]);
+    history.track(list);
+
+    list.remove(1);
+    history.undo();
+
+    expect(list.toJSON()).toEqual(["a", "b"]);
+  });
+
+  test("should ignore popping an empty list", () => {
+    const history = new History();
+    const list = new ObservableList<number>();
+    history.track(list);
+
+    list.pop();
+
+    expect(history.canUndo).toBe(false);
+  });
+});
+
+describe("History - Transactions", () => {
+  test("should undo a transaction as one step", () => {
+    const history = new History();
+    const obj = new ObservableObject({ first: "John", last: "Doe" });
+    history.track(obj);
+
+    history.transaction(() => {
+      obj.set("first", "Jane");
+      obj.set("last", "Smith");
+    });
+
+    history.undo();
+    expect(obj.toJSON()).toEqual({ first: "John", last: "Doe" });
+    expect(history.canUndo).toBe(false);
+
+    history.redo();
+    expect(obj.toJSON()).toEqual({ first: "Jane", last: "Smith" });
+  });
+
+  test("should commit nested transactions with the outermost one", () => {
+    const history = new History();
+    const obj = new ObservableObject({ a: 1, b: 1 });
+    history.track(obj);
+
+    history.begin();
+    obj.set("a", 2);
+    history.transaction(() => obj.set("b", 2));
+    expect(history.canUndo).toBe(false);
+    history.commit();
+
+    history.undo();
+    expect(obj.toJSON()).toEqual({ a: 1, b: 1 });
+  });
+
+  test("should not record empty transactions", () => {
+    const history = new History();
+    history.transaction(() => {});
+
+    expect(history.canUndo).toBe(false);
+  });
+
+  test("should throw when committing without a transaction", () => {
+    const history = new History();
+
+    expect(() => history.commit()).toThrow("No transaction in progress");
+  });
+});
+
+describe("History - Capacity", () => {
+  test("should drop the oldest steps", () => {
+    const history = new History({ capacity: 2 });
+    const obj = new ObservableObject({ n: 0 });
+    history.track(obj);
+
+    obj.set("n", 1);
+    obj.set("n", 2);
+    obj.set("n", 3);
+
+    while (history.undo());
+    expect(obj.get("n")).toBe(1);
+  });
+});
+
+describe("History - Events", () => {
+  test("should emit change with the undo/redo state", () => {
+    const history = new History();
+    const obj = new ObservableObject({ n: 0 });
+    history.track(obj);
+    const listener = vi.fn();
+    history.on("change", listener);
+
+    obj.set("n", 1);
+    history.undo();
+    history.clear();
+
+    expect(listener.mock.calls.map(([e]) => e)).toEqual([
+      { canUndo: true, canRedo: false },
+      { canUndo: false, canRedo: true },
+      { canUndo: false, canRedo: false },
+    ]);
+  });
+});
@@ -0,0 +1,242 @@
+import { EventEmitter, IEventEmitter, Subscription } from "./emitter.js";
+import { ListChangeEvent, ObservableList } from "./list.js";
+import { ObservableObject } from "./object.js";
+
+/**
+ * A recorded change, which knows how to revert and reapply itself
+ */
+export interface HistoryEntry {
+  undo(): void;
+  redo(): void;
+}
+
+export interface HistoryOptions {
+  /**
+   * Maximum number of steps kept for undo. Defaults to 100.
+   */
+  capacity?: number;
+}
+
+export interface HistoryEvents {
+  change: { canUndo: boolean; canRedo: boolean };
+}
+
+/**
+ * Records changes so they can be undone and redone. Changes recorded within a
+ * transaction are undone as one step, and changes made while undoing or
+ * redoing are not recorded.
+ */
+export class History implements IEventEmitter<HistoryEvents> {
+  #emitter: EventEmitter<HistoryEvents> = new EventEmitter({ target: this });
+  #undo: HistoryEntry[][] = [];
+  #redo: HistoryEntry[][] = [];
+  #capacity: number;
+  #transaction: HistoryEntry[] | undefined;
+  #depth = 0;
+  #replaying = false;
+
+  constructor(options: HistoryOptions = {}) {
+    this.#capacity = options.capacity ?? 100;
+  }
+
+  get canUndo() {
+    return this.#undo.length > 0;
+  }
+
+  get canRedo() {
+    return this.#redo.length > 0;
+  }
+
+  /**
+   * Whether an undo or redo is in progress
+   */
+  get isReplaying() {
+    return this.#replaying;
+  }
+
+  on<K extends keyof HistoryEvents>(
+    event: K,
+    listener: (payload: HistoryEvents[K]) => void,
+  ) {
+    return this.#emitter.on(event, listener);
+  }
+
+  off<K extends keyof HistoryEvents>(
+    event: K,
+    listener: (payload: HistoryEvents[K]) => void,
+  ) {
+    this.#emitter.off(event, listener);
+  }
+
+  record(entry: HistoryEntry) {
+    if (this.#replaying) return;
+
+    if (this.#transaction) {
+      this.#transaction.push(entry);
+    } else {
+      this.#push([entry]);
+    }
+  }
+
+  /**
+   * Starts a transaction. Transactions nest; the outermost `commit` records
+   * the step.
+   */
+  begin() {
+    if (this.#depth++ === 0) {
+      this.#transaction = [];
+    }
+  }
+
+  commit() {
+    if (!this.#depth) {
+      throw new Error("No transaction in progress");
+    }
+    if (--this.#depth) return;
+
+    const entries = this.#transaction!;
+    this.#transaction = undefined;
+    if (entries.length) {
+      this.#push(entries);
+    }
+  }
+
+  transaction<R>(fn: () => R): R {
+    this.begin();
+    try {
+      return fn();
+    } finally {
+      this.commit();
+    }
+  }
+
+  undo() {
+    const step = this.#undo.pop();
+    if (!step) return false;
+
+    this.#replay(() => {
+      for (let i = step.length - 1; i >= 0; i--) {
+        step[i].undo();
+      }
+    });
+    this.#redo.push(step);
+    this.#emitChange();
+    return true;
+  }
+
+  redo() {
+    const step = this.#redo.pop();
+    if (!step) return false;
+
+    this.#replay(() => {
+      for (const entry of step) {
+        entry.redo();
+      }
+    });
+    this.#undo.push(step);
+    this.#emitChange();
+    return true;
+  }
+
+  clear() {
+    if (!this.#undo.length && !this.#redo.length) return;
+    this.#undo = [];
+    this.#redo = [];
+    this.#emitChange();
+  }
+
+  /**
+   * Records the changes of `target` until the returned subscription is
+   * called
+   */
+  track(target: ObservableList<any> | ObservableObject<any>): Subscription {
+    if (target instanceof ObservableList) {
+      return trackList(this, target);
+    }
+
+    return target.on("change", (e) => {
+      this.record({
+        undo: () => target.set(e.key, e.prev),
+        redo: () => target.set(e.key, e.value),
+      });
+    });
+  }
+
+  #push(step: HistoryEntry[]) {
+    this.#undo.push(step);
+    if (this.#undo.length > this.#capacity) {
+      this.#undo.shift();
+    }
+    this.#redo = [];
+    this.#emitChange();
+  }
+
+  #replay(fn: () => void) {
+    this.#replaying = true;
+    try {
+      fn();
+    } finally {
+      this.#replaying = false;
+    }
+  }
+
+  #emitChange() {
+    this.#emitter.emit("change", {
+      canUndo: this.canUndo,
+      canRedo: this.canRedo,
+    });
+  }
+}
+
+function trackList<T>(history: History, list: ObservableList<T>) {
+  // Popping an empty list emits a change too, which has nothing to undo
+  let length = list.length;
+  return list.on("change", (e) => {
+    const prevLength = length;
+    length = list.length;
+    if (e.type === "pop" && !prevLength) return;
+    history.record(listEntry(list, e));
+  });
+}
+
+function listEntry<T>(
+  list: ObservableList<T>,
+  e: ListChangeEvent<T>,
+): HistoryEntry {
+  switch (e.type) {
+    case "set":
+      return {
+        undo: () => list.set(e.index, e.prev),
+        redo: () => list.set(e.index, e.item),
+      };
+    case "push":
+      return {
+        undo: () => e.items.forEach(() => list.pop()),
+        redo: () => list.push(...e.items),
+      };
+    case "pop":
+      return {
+        undo: () => list.push(e.item as T),
+        redo: () => list.pop(),
+      };
+    case "remove":
+      return {
+        undo: () => insertAt(list, e.index, e.item),
+        redo: () => list.remove(e.index),
+      };
+    case "insert":
+      return {
+        undo: () => list.remove(e.index),
+        redo: () => insertAt(list, e.index, e.item),
+      };
+  }
+}
+
+// `insert` only accepts indexes of existing items
+function insertAt<T>(list: ObservableList<T>, index: number, item: T) {
+  if (index === list.length) {
+    list.push(item);
+  } else {
+    list.insert(index, item);
+  }
+}
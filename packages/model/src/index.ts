@@ -1,9 +1,15 @@
 export * from "./emitter.js";
+export * from "./batch.js";
 export * from "./model.js";
 export * from "./collection.js";
 export * from "./value.js";
 export * from "./util.js";
 export * from "./list.js";
 export * from "./object.js";
+export * from "./deep.js";
+export * from "./history.js";
+export * from "./serialize.js";
+export * from "./patch.js";
+export * from "./define.js";
 
 export { Base, type BaseEvent } from "./base.js";
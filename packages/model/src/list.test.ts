@@ -1,5 +1,7 @@
 import { describe, test, expect, vi } from "vitest";
-import { ObservableList } from "./list";
+import { batch } from "./batch";
+import { type ListChangeEvent, ListView, ObservableList } from "./list";
+import { ObservableObject } from "./object";
 
 describe("ObservableList - Create Tests", () => {
   test("should create an empty list", () => {
@@ -107,6 +109,7 @@ describe("ObservableList - Insert Tests", () => {
       type: "set",
       item: "x",
       prev: "a",
+      index: 0,
     });
   });
 
@@ -562,3 +565,198 @@ describe("ObservableList - Integration Tests", () => {
     expect(mapped.toJSON()).toEqual([1, 2.5, 4]);
   });
 });
+
+// Applies the changes `list` emits to a plain array, which should end up
+// equal to the list
+function replay<T>(list: ObservableList<T>) {
+  const items = list.toJSON();
+  list.on("change", (e: ListChangeEvent<T>) => {
+    switch (e.type) {
+      case "set":
+        items[e.index] = e.item;
+        break;
+      case "push":
+        items.push(...e.items);
+        break;
+      case "pop":
+        items.pop();
+        break;
+      case "remove":
+        items.splice(e.index, 1);
+        break;
+      case "insert":
+        items.splice(e.index, 0, e.item);
+        break;
+    }
+  });
+  return items;
+}
+
+describe("ListView", () => {
+  test("should mirror the source", () => {
+    const list = new ObservableList([1, 2, 3]);
+    const view = list.view();
+    const items = replay(view);
+
+    list.push(4, 5);
+    list.remove(0);
+    list.insert(1, 6);
+    list.set(0, 7);
+    list.pop();
+
+    expect(view.toJSON()).toEqual([7, 6, 3, 4]);
+    expect(items).toEqual(view.toJSON());
+  });
+
+  test("should emit only the changes passing a filter", () => {
+    const list = new ObservableList([1, 2, 3, 4]);
+    const view = list.view().filter((n) => n % 2 === 0);
+    const listener = vi.fn();
+    view.on("change", listener);
+
+    list.push(5, 6);
+    list.remove(0);
+    list.set(0, 8);
+    list.set(1, 9);
+
+    expect(view.toJSON()).toEqual([8, 4, 6]);
+    expect(listener.mock.calls.map(([e]) => e)).toEqual([
+      { type: "push", items: [6] },
+      { type: "set", index: 0, item: 8, prev: 2 },
+    ]);
+  });
+
+  test("should keep a sorted view in order", () => {
+    const list = new ObservableList([3, 1, 2]);
+    const view = list.view().sort((a, b) => a - b);
+    const items = replay(view);
+
+    expect(view.toJSON()).toEqual([1, 2, 3]);
+
+    list.push(0, 5);
+    list.insert(1, 4);
+    list.set(0, 6);
+    list.remove(2);
+    list.pop();
+
+    expect(view.toJSON()).toEqual([0, 2, 4, 6]);
+    expect(items).toEqual(view.toJSON());
+  });
+
+  test("should map items", () => {
+    const list = new ObservableList(["a", "b"]);
+    const view = list.view().map((s) => s.toUpperCase());
+
+    list.push("c");
+    list.set(0, "d");
+    list.remove(1);
+
+    expect(view.toJSON()).toEqual(["D", "C"]);
+  });
+
+  test("should chain views", () => {
+    const list = new ObservableList([5, 2, 8, 1, 4]);
+    const view = list
+      .view()
+      .filter((n) => n > 1)
+      .sort((a, b) => a - b)
+      .map((n) => `#${n}`);
+    const items = replay(view);
+
+    expect(view.toJSON()).toEqual(["#2", "#4", "#5", "#8"]);
+
+    list.push(3, 0);
+    list.remove(0);
+    list.set(0, 9);
+
+    expect(view.toJSON()).toEqual(["#3", "#4", "#8", "#9"]);
+    expect(items).toEqual(view.toJSON());
+  });
+
+  test("should derive changed items again", () => {
+    const a = new ObservableObject({ name: "a", done: false });
+    const b = new ObservableObject({ name: "b", done: false });
+    const list = new ObservableList([a, b]);
+    const view = list
+      .view()
+      .filter((todo) => !todo.get("done"))
+      .sort((x, y) => x.get("name")!.localeCompare(y.get("name")!))
+      .map((todo) => todo.get("name"));
+
+    b.set("name", "0");
+    expect(view.toJSON()).toEqual(["0", "a"]);
+
+    a.set("done", true);
+    expect(view.toJSON()).toEqual(["0"]);
+
+    a.set("done", false);
+    expect(view.toJSON()).toEqual(["0", "a"]);
+  });
+
+  test("should apply the changes of a batch", () => {
+    const list = new ObservableList([1, 2, 3]);
+    const view = list.view().filter((n) => n !== 2);
+
+    batch(() => {
+      list.push(4);
+      list.remove(0);
+      list.set(0, 5);
+      expect(view.toJSON()).toEqual([1, 3]);
+    });
+
+    expect(view.toJSON()).toEqual([5, 3, 4]);
+  });
+
+  test("should refresh", () => {
+    let max = 2;
+    const list = new ObservableList([1, 2, 3]);
+    const view = list.view().filter((n) => n <= max);
+
+    max = 3;
+    view.refresh();
+
+    expect(view.toJSON()).toEqual([1, 2, 3]);
+  });
+
+  test("should be read-only", () => {
+    const view = new ObservableList([1]).view();
+    expect(() => view.push(2)).toThrow(TypeError);
+    expect(() => view.set(0, 2)).toThrow("List views are read-only");
+  });
+
+  test("should stop updating when disposed", () => {
+    const item = new ObservableObject({ n: 1 });
+    const list = new ObservableList([item]);
+    const root = list.view();
+    const mapped = root.map((o) => o.get("n"));
+    const listener = vi.fn();
+    mapped.on("change", listener);
+
+    root.dispose();
+    list.push(new ObservableObject({ n: 2 }));
+    item.set("n", 3);
+
+    expect(root.isDisposed).toBe(true);
+    expect(mapped.isDisposed).toBe(true);
+    expect(mapped.toJSON()).toEqual([1]);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("disposing a derived view should leave its source", () => {
+    const list = new ObservableList([1]);
+    const root = list.view();
+    const a = root.map((n) => n * 2);
+    const b = root.map((n) => n * 3);
+
+    a.dispose();
+    list.push(2);
+
+    expect(root.isDisposed).toBe(false);
+    expect(b.toJSON()).toEqual([3, 6]);
+    expect(a.toJSON()).toEqual([2]);
+  });
+
+  test("should be a list view", () => {
+    expect(new ObservableList().view()).toBeInstanceOf(ListView);
+  });
+});
@@ -1,4 +1,12 @@
-import { EventEmitter, IEventEmitter } from "./emitter.js";
+import {
+  Children,
+  DEEP,
+  type DeepChangeEvent,
+  type DeepEvents,
+  type ObservableOptions,
+} from "./deep.js";
+import { batch } from "./batch.js";
+import { EventEmitter, IEventEmitter, Subscription } from "./emitter.js";
 
 export interface IObservableList<T> extends IEventEmitter<ListEvents<T>> {
   set(index: number, value: T): void;
@@ -9,6 +17,7 @@ export interface IObservableList<T> extends IEventEmitter<ListEvents<T>> {
   map<U>(mapper: (value: T) => U): ObservableList<U>;
   filter(mapper: (value: T) => boolean): ObservableList<T>;
   find(mapper: (value: T) => boolean): T | undefined;
+  indexOf(value: T): number;
   toJSON(): T[];
   length: number;
 
@@ -20,6 +29,7 @@ export type ListChangeEvent<T> =
       type: "set";
       item: T;
       prev: T;
+      index: number;
     }
   | {
       type: "push";
@@ -29,17 +39,23 @@ export type ListChangeEvent<T> =
   | { type: "remove"; item: T; index: number }
   | { type: "insert"; item: T; index: number };
 
-export interface ListEvents<T> {
+export interface ListEvents<T> extends DeepEvents {
   change: ListChangeEvent<T>;
 }
 
 export class ObservableList<T>
   implements IEventEmitter<ListEvents<T>>, IObservableList<T>
 {
+  [DEEP] = true;
   #values: T[];
-  #emitter: EventEmitter<ListEvents<T>> = new EventEmitter();
-  constructor(values: T[] = []) {
+  #emitter: EventEmitter<ListEvents<T>> = new EventEmitter({ target: this });
+  #children: Children | undefined;
+  constructor(values: T[] = [], options: ObservableOptions = {}) {
     this.#values = values;
+    if (options.deep) {
+      this.#children = new Children(this.#onChildChange);
+      values.forEach((value) => this.#children!.add(value));
+    }
   }
 
   on<K extends keyof ListEvents<T>>(
@@ -71,8 +87,11 @@ export class ObservableList<T>
 
     const prev = this.#values[index];
     this.#values[index] = value;
-    if (prev !== value)
-      this.#emitter.emit("change", { type: "set", item: value, prev });
+    if (prev !== value) {
+      this.#children?.delete(prev);
+      this.#children?.add(value);
+      this.#emit({ type: "set", item: value, prev, index }, index);
+    }
   }
 
   insert(index: number, value: T) {
@@ -81,18 +100,28 @@ export class ObservableList<T>
     }
 
     this.#values.splice(index, 0, value);
+    this.#children?.add(value);
 
-    this.#emitter.emit("change", { type: "insert", item: value, index });
+    this.#emit({ type: "insert", item: value, index }, index);
   }
 
   push(...items: T[]) {
     this.#values.push(...items);
-    this.#emitter.emit("change", { type: "push", items: items });
+    items.forEach((item) => this.#children?.add(item));
+    this.#emit({ type: "push", items: items });
   }
 
   pop() {
+    const length = this.#values.length;
     const value = this.#values.pop();
+    this.#children?.delete(value);
     this.#emitter.emit("change", { type: "pop", item: value });
+    if (length) {
+      this.#emitter.emit("deepChange", {
+        path: [length - 1],
+        change: { type: "pop", item: value },
+      });
+    }
 
     return value;
   }
@@ -103,7 +132,8 @@ export class ObservableList<T>
     }
 
     let removed = this.#values.splice(index, 1);
-    this.#emitter.emit("change", { type: "remove", index, item: removed[0] });
+    this.#children?.delete(removed[0]);
+    this.#emit({ type: "remove", index, item: removed[0] }, index);
 
     return removed[0];
   }
@@ -124,12 +154,360 @@ export class ObservableList<T>
     return this.#values.find(mapper);
   }
 
+  indexOf(value: T): number {
+    return this.#values.indexOf(value);
+  }
+
+  /**
+   * A live view of the list, see `ListView`
+   */
+  view(): ListView<T> {
+    return new ListView(this);
+  }
+
   toJSON() {
     return [...this.#values];
   }
 
+  #emit(change: ListChangeEvent<T>, index?: number) {
+    this.#emitter.emit("change", change);
+    this.#emitter.emit("deepChange", {
+      path: index === undefined ? [] : [index],
+      change,
+    });
+  }
+
+  #onChildChange = (child: object, event: DeepChangeEvent) => {
+    this.#values.forEach((value, index) => {
+      if (value === child) {
+        this.#emitter.emit("deepChange", {
+          ...event,
+          path: [index, ...event.path],
+        });
+      }
+    });
+  };
+
   [Symbol.iterator]() {
     const inner = this.#values[Symbol.iterator]();
     return inner;
   }
 }
+
+/**
+ * The operations a `ViewStage` updates its view with
+ */
+export interface ViewSink<T> {
+  at(index: number): T | undefined;
+  insert(index: number, item: T): void;
+  remove(index: number): void;
+  set(index: number, item: T): void;
+}
+
+/**
+ * Derives the items of a view from the items of its source, eg. by
+ * filtering. It is told about every change of the source, by the index of
+ * the item in the source.
+ */
+export interface ViewStage<S, T> {
+  init(items: S[]): T[];
+  insert(index: number, item: S, view: ViewSink<T>): void;
+  remove(index: number, item: S, view: ViewSink<T>): void;
+  replace(index: number, item: S, view: ViewSink<T>): void;
+  /**
+   * The item at `index` changed itself, eg. a model got a new value
+   */
+  update(index: number, item: S, view: ViewSink<T>): void;
+}
+
+/**
+ * A read-only list kept in sync with a source list. `filter`, `sort` and
+ * `map` derive further views, eg. `list.view().filter(fn).sort(cmp)`, which
+ * apply every change of the source as the fewest changes of their own.
+ * Observable items are watched too, so an item is filtered, sorted and
+ * mapped again when it changes.
+ *
+ * Views stay subscribed to their source until `dispose` is called.
+ * Disposing a view disposes the views derived from it, so disposing the
+ * view returned by `view()` ends a whole chain.
+ */
+export class ListView<T> extends ObservableList<T> {
+  #source: IObservableList<any>;
+  #stage: ViewStage<any, T>;
+  // The items of the source, as of the last change seen
+  #input: unknown[];
+  #children = new Children((child) => this.#onItemChange(child));
+  #subscription: Subscription | undefined;
+  #derived = new Set<ListView<any>>();
+  #sink: ViewSink<T> = {
+    at: (index) => this.at(index),
+    insert: (index, item) => {
+      if (index === this.length) {
+        super.push(item);
+      } else {
+        super.insert(index, item);
+      }
+    },
+    remove: (index) => {
+      super.remove(index);
+    },
+    set: (index, item) => super.set(index, item),
+  };
+
+  constructor(
+    source: IObservableList<any>,
+    stage: ViewStage<any, T> = identity(),
+  ) {
+    const input = source.toJSON();
+    super(stage.init(input));
+    this.#source = source;
+    this.#stage = stage;
+    this.#input = input;
+    input.forEach((item) => this.#children.add(item));
+    this.#subscription = source.on("change", this.#onChange);
+    if (source instanceof ListView) {
+      source.#derived.add(this);
+    }
+  }
+
+  get isDisposed() {
+    return this.#subscription === undefined;
+  }
+
+  filter(predicate: (value: T) => boolean): ListView<T> {
+    return new ListView(this, filterStage(predicate));
+  }
+
+  sort(comparator: (a: T, b: T) => number): ListView<T> {
+    return new ListView(this, sortStage(comparator));
+  }
+
+  map<U>(mapper: (value: T) => U): ListView<U> {
+    return new ListView(this, mapStage(mapper));
+  }
+
+  /**
+   * Derives the items again, eg. when the predicate of a filter depends on
+   * state outside the items
+   */
+  refresh() {
+    batch(() => {
+      this.#input.forEach((item, index) =>
+        this.#stage.update(index, item, this.#sink),
+      );
+    });
+  }
+
+  dispose() {
+    if (!this.#subscription) return;
+    this.#subscription();
+    this.#subscription = undefined;
+    this.#input.forEach((item) => this.#children.delete(item));
+    this.#derived.forEach((view) => view.dispose());
+    if (this.#source instanceof ListView) {
+      this.#source.#derived.delete(this);
+    }
+  }
+
+  set(_index: number, _value: T): never {
+    throw readOnly();
+  }
+
+  insert(_index: number, _value: T): never {
+    throw readOnly();
+  }
+
+  push(..._items: T[]): never {
+    throw readOnly();
+  }
+
+  pop(): never {
+    throw readOnly();
+  }
+
+  remove(_index: number): never {
+    throw readOnly();
+  }
+
+  #onChange = (e: ListChangeEvent<unknown>) => {
+    const input = this.#input;
+    const stage = this.#stage;
+    const sink = this.#sink;
+
+    batch(() => {
+      switch (e.type) {
+        case "set":
+          this.#children.delete(input[e.index]);
+          this.#children.add(e.item);
+          input[e.index] = e.item;
+          stage.replace(e.index, e.item, sink);
+          break;
+        case "push":
+          for (const item of e.items) {
+            input.push(item);
+            this.#children.add(item);
+            stage.insert(input.length - 1, item, sink);
+          }
+          break;
+        case "pop":
+          // Popping an empty list changes nothing
+          if (input.length) {
+            const item = input.pop();
+            this.#children.delete(item);
+            stage.remove(input.length, item, sink);
+          }
+          break;
+        case "remove":
+          input.splice(e.index, 1);
+          this.#children.delete(e.item);
+          stage.remove(e.index, e.item, sink);
+          break;
+        case "insert":
+          input.splice(e.index, 0, e.item);
+          this.#children.add(e.item);
+          stage.insert(e.index, e.item, sink);
+          break;
+      }
+    });
+  };
+
+  #onItemChange(child: object) {
+    batch(() => {
+      this.#input.forEach((item, index) => {
+        if (item === child) this.#stage.update(index, item, this.#sink);
+      });
+    });
+  }
+}
+
+function readOnly() {
+  return new TypeError("List views are read-only");
+}
+
+function identity<T>(): ViewStage<T, T> {
+  return {
+    init: (items) => [...items],
+    insert: (index, item, view) => view.insert(index, item),
+    remove: (index, _item, view) => view.remove(index),
+    replace: (index, item, view) => view.set(index, item),
+    update: () => {},
+  };
+}
+
+function filterStage<T>(predicate: (value: T) => boolean): ViewStage<T, T> {
+  // Whether each item of the source is in the view
+  let included: boolean[] = [];
+  // The index in the view of the source item at `index`
+  const position = (index: number) =>
+    included.slice(0, index).filter(Boolean).length;
+
+  const change = (index: number, item: T, view: ViewSink<T>) => {
+    const was = included[index];
+    const is = predicate(item);
+    included[index] = is;
+    if (was && is) {
+      view.set(position(index), item);
+    } else if (was) {
+      view.remove(position(index));
+    } else if (is) {
+      view.insert(position(index), item);
+    }
+  };
+
+  return {
+    init(items) {
+      included = items.map(predicate);
+      return items.filter((_, index) => included[index]);
+    },
+    insert(index, item, view) {
+      const is = predicate(item);
+      included.splice(index, 0, is);
+      if (is) view.insert(position(index), item);
+    },
+    remove(index, _item, view) {
+      const [was] = included.splice(index, 1);
+      if (was) view.remove(position(index));
+    },
+    replace: change,
+    update: change,
+  };
+}
+
+function sortStage<T>(compare: (a: T, b: T) => number): ViewStage<T, T> {
+  // Boxes of the source items, in source order and in view order
+  let entries: { item: T }[] = [];
+  let sorted: { item: T }[] = [];
+
+  // The index after the entries ordered before or with `item`
+  const sortedIndex = (item: T) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (compare(sorted[middle].item, item) <= 0) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  };
+
+  const add = (entry: { item: T }, view: ViewSink<T>) => {
+    const index = sortedIndex(entry.item);
+    sorted.splice(index, 0, entry);
+    view.insert(index, entry.item);
+  };
+
+  // Sets the item of `entry` in place, or moves it when out of order
+  const change = (entry: { item: T }, item: T, view: ViewSink<T>) => {
+    const index = sorted.indexOf(entry);
+    entry.item = item;
+    const prev = sorted[index - 1];
+    const next = sorted[index + 1];
+    if (
+      (!prev || compare(prev.item, item) <= 0) &&
+      (!next || compare(item, next.item) <= 0)
+    ) {
+      if (view.at(index) !== item) view.set(index, item);
+      return;
+    }
+    sorted.splice(index, 1);
+    view.remove(index);
+    add(entry, view);
+  };
+
+  return {
+    init(items) {
+      entries = items.map((item) => ({ item }));
+      sorted = [...entries].sort((a, b) => compare(a.item, b.item));
+      return sorted.map((entry) => entry.item);
+    },
+    insert(index, item, view) {
+      const entry = { item };
+      entries.splice(index, 0, entry);
+      add(entry, view);
+    },
+    remove(index, _item, view) {
+      const [entry] = entries.splice(index, 1);
+      const at = sorted.indexOf(entry);
+      sorted.splice(at, 1);
+      view.remove(at);
+    },
+    replace: (index, item, view) => change(entries[index], item, view),
+    update: (index, item, view) => change(entries[index], item, view),
+  };
+}
+
+function mapStage<S, T>(mapper: (value: S) => T): ViewStage<S, T> {
+  return {
+    init: (items) => items.map(mapper),
+    insert: (index, item, view) => view.insert(index, mapper(item)),
+    remove: (index, _item, view) => view.remove(index),
+    replace: (index, item, view) => view.set(index, mapper(item)),
+    update(index, item, view) {
+      const value = mapper(item);
+      if (value !== view.at(index)) view.set(index, value);
+    },
+  };
+}
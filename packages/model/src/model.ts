@@ -4,6 +4,7 @@ import {
   ObservableObjectSchema,
 } from "./object.js";
 import { Equality, isEqual } from "./util.js";
+import type { ObservableOptions } from "./deep.js";
 
 export interface IModel<
   T extends ObservableObjectSchema,
@@ -15,7 +16,7 @@ export interface IModel<
 export interface ModelOptions<
   T extends ObservableObjectSchema,
   PK extends keyof T,
-> {
+> extends ObservableOptions {
   primaryKey: PK;
   values: T;
 }
@@ -34,10 +35,14 @@ export class Model<T extends ObservableObjectSchema, PK extends keyof T>
     options: ModelOptions<T, PK>,
     equal: Equality<T[keyof T]> = isEqual,
   ) {
-    super(options.values, equal);
+    super(options.values, equal, options);
     this.#primaryKey = options.primaryKey;
   }
 
+  get primaryKey(): PK {
+    return this.#primaryKey;
+  }
+
   get id(): T[PK] | undefined {
     return this.get(this.#primaryKey);
   }
@@ -1,4 +1,12 @@
 import { Base, ChangeEvent } from "./base.js";
+import { coalesceChanges } from "./batch.js";
+import {
+  Children,
+  DEEP,
+  type DeepChangeEvent,
+  type DeepEvents,
+  type ObservableOptions,
+} from "./deep.js";
 import { EventEmitter, IEventEmitter, Subscription } from "./emitter.js";
 import { Equality, isEqual } from "./util.js";
 
@@ -24,7 +32,8 @@ type ObjectFieldChange<T> = {
   };
 };
 
-export type ObservableObjectEvents<T> = ObjectFieldChange<T> & {
+export type ObservableObjectEvents<T> = ObjectFieldChange<T> &
+  DeepEvents & {
   change: {
     key: keyof T;
     value: T[keyof T];
@@ -40,14 +49,29 @@ export class ObservableObject<T extends { [key: PropertyKey]: any }>
   extends Base<T>
   implements IEventEmitter<ObservableObjectEvents<T>>, IObservableObject<T>
 {
-  #emitter: EventEmitter<ObservableObjectEvents<T>> = new EventEmitter();
+  [DEEP] = true;
+  #emitter: EventEmitter<ObservableObjectEvents<T>> = new EventEmitter({
+    coalesce: coalesceChanges((a, b) => this.#equal(a, b)),
+    target: this,
+  });
   #values: { [K in keyof T]?: T[K] };
   #equal: Equality<T[PropertyKey]>;
+  #children: Children | undefined;
 
-  constructor(values: T, equal: Equality<T[PropertyKey]> = isEqual) {
+  constructor(
+    values: T,
+    equal: Equality<T[PropertyKey]> = isEqual,
+    options: ObservableOptions = {},
+  ) {
     super();
     this.#values = values;
     this.#equal = equal;
+    if (options.deep) {
+      this.#children = new Children(this.#onChildChange);
+      for (const key in values) {
+        this.#children.add(values[key]);
+      }
+    }
   }
 
   get<K extends keyof T>(field: K): T[K] {
@@ -58,6 +82,10 @@ export class ObservableObject<T extends { [key: PropertyKey]: any }>
     const trigger = !this.#equal(this.#values[field], value);
     const prev = this.#values[field];
     this.#values[field] = value;
+    if (prev !== value) {
+      this.#children?.delete(prev);
+      this.#children?.add(value);
+    }
     if (trigger) {
       this.#emitter.emit(`change:${String(field)}`, {
         value,
@@ -69,6 +97,11 @@ export class ObservableObject<T extends { [key: PropertyKey]: any }>
         value,
         prev,
       } as any);
+
+      this.#emitter.emit("deepChange", {
+        path: [field as string],
+        change: { key: field, value, prev },
+      } as any);
     }
   }
 
@@ -106,6 +139,17 @@ export class ObservableObject<T extends { [key: PropertyKey]: any }>
     return { ...this.#values } as T;
   }
 
+  #onChildChange = (child: object, event: DeepChangeEvent) => {
+    for (const key in this.#values) {
+      if (this.#values[key] === child) {
+        this.#emitter.emit("deepChange", {
+          ...event,
+          path: [key, ...event.path],
+        } as any);
+      }
+    }
+  };
+
   subscribe(observer: (value: ChangeEvent<T>) => void): Subscription {
     return this.on("change", (e) =>
       observer({ value: this.values, prev: this.values } as any),
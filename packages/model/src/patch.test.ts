@@ -0,0 +1,245 @@
+import { describe, test, expect, vi } from "vitest";
+import { Collection } from "./collection";
+import { ObservableList } from "./list";
+import { Model } from "./model";
+import { ObservableObject } from "./object";
+import {
+  applyPatch,
+  diff,
+  parsePointer,
+  type Patch,
+  PatchError,
+  toPlain,
+  toPointer,
+  watchPatches,
+} from "./patch";
+
+function address(city: string) {
+  return new ObservableObject({ city }, undefined, { deep: true });
+}
+
+describe("JSON Pointer", () => {
+  test("should escape keys", () => {
+    expect(toPointer(["a/b", "c~d", 0])).toBe("/a~1b/c~0d/0");
+    expect(parsePointer("/a~1b/c~0d/0")).toEqual(["a/b", "c~d", "0"]);
+    expect(parsePointer("")).toEqual([]);
+  });
+});
+
+describe("watchPatches", () => {
+  test("should create patches from changes", () => {
+    const addresses = new ObservableList([address("Oslo")], { deep: true });
+    const person = new ObservableObject(
+      { name: "John", age: undefined as number | undefined, addresses },
+      undefined,
+      { deep: true },
+    );
+    const patches: unknown[] = [];
+    watchPatches(person, (patch) => patches.push(...patch));
+
+    person.set("name", "Jane");
+    person.set("age", 30);
+    addresses.at(0)!.set("city", "Bergen");
+    addresses.push(address("Aarhus"));
+    addresses.insert(0, address("Odense"));
+    addresses.remove(1);
+    addresses.pop();
+    addresses.pop();
+    person.set("age", undefined);
+
+    expect(patches).toEqual([
+      { op: "replace", path: "/name", value: "Jane" },
+      { op: "add", path: "/age", value: 30 },
+      { op: "replace", path: "/addresses/0/city", value: "Bergen" },
+      { op: "add", path: "/addresses/-", value: { city: "Aarhus" } },
+      { op: "add", path: "/addresses/0", value: { city: "Odense" } },
+      { op: "remove", path: "/addresses/1" },
+      { op: "remove", path: "/addresses/1" },
+      { op: "remove", path: "/addresses/0" },
+      { op: "remove", path: "/age" },
+    ]);
+  });
+
+  test("should not report popping an empty list", () => {
+    const list = new ObservableList<number>();
+    const listener = vi.fn();
+    watchPatches(list, listener);
+
+    list.pop();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("should replay onto a copy", () => {
+    const source = new ObservableList([address("Oslo")], { deep: true });
+    const copy = new ObservableList([address("Oslo")], { deep: true });
+    watchPatches(source, (patch) => applyPatch(copy, patch));
+
+    source.push(address("Bergen"));
+    source.at(0)!.set("city", "Aarhus");
+    source.remove(0);
+
+    expect(toPlain(copy)).toEqual([{ city: "Bergen" }]);
+  });
+});
+
+describe("applyPatch", () => {
+  test("should update observables in place", () => {
+    const tags = new ObservableList(["a", "b"]);
+    const obj = new ObservableObject({ name: "John", tags });
+    const listener = vi.fn();
+    tags.on("change", listener);
+
+    applyPatch(obj, [
+      { op: "replace", path: "/name", value: "Jane" },
+      { op: "add", path: "/tags/1", value: "c" },
+      { op: "remove", path: "/tags/0" },
+      { op: "add", path: "/tags/-", value: "d" },
+    ]);
+
+    expect(obj.get("tags")).toBe(tags);
+    expect(obj.get("name")).toBe("Jane");
+    expect(tags.toJSON()).toEqual(["c", "b", "d"]);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  test("should apply to plain data", () => {
+    const data = { a: { b: [1, 2] } as Record<string, unknown> };
+
+    applyPatch(data, [
+      { op: "copy", from: "/a/b", path: "/a/c" },
+      { op: "move", from: "/a/b/0", path: "/a/d" },
+      { op: "test", path: "/a/c", value: [1, 2] },
+    ]);
+
+    expect(data).toEqual({ a: { b: [2], c: [1, 2], d: 1 } });
+  });
+
+  test("should throw for operations which do not apply", () => {
+    const list = new ObservableList([1]);
+
+    expect(() =>
+      applyPatch(list, [{ op: "test", path: "/0", value: 2 }]),
+    ).toThrow(PatchError);
+    expect(() =>
+      applyPatch(list, [{ op: "replace", path: "/1", value: 2 }]),
+    ).toThrow("Index out of bounds: /1");
+    expect(() =>
+      applyPatch({}, [{ op: "remove", path: "/missing" }]),
+    ).toThrow("Path not found: /missing");
+  });
+
+  test("should leave the target unchanged when an operation fails", () => {
+    const tags = new ObservableList(["a", "b"]);
+    const obj = new ObservableObject({ name: "John", tags });
+    const data = { name: "John", tags: ["a"] };
+    const listener = vi.fn();
+    tags.on("change", listener);
+    obj.on("change", listener);
+
+    const patch: Patch = [
+      { op: "replace", path: "/name", value: "Jane" },
+      { op: "add", path: "/tags/-", value: "c" },
+      { op: "test", path: "/tags/0", value: "x" },
+    ];
+
+    expect(() => applyPatch(obj, patch)).toThrow(PatchError);
+    expect(() => applyPatch(data, patch)).toThrow(PatchError);
+
+    expect(obj.get("name")).toBe("John");
+    expect(tags.toJSON()).toEqual(["a", "b"]);
+    expect(data).toEqual({ name: "John", tags: ["a"] });
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test("should not reach the prototypes of objects", () => {
+    const data = { a: {} };
+
+    for (const path of [
+      "/__proto__/polluted",
+      "/a/constructor/prototype/polluted",
+    ]) {
+      expect(() =>
+        applyPatch(data, [{ op: "add", path, value: "yes" }]),
+      ).toThrow(`Unsafe path: ${path}`);
+    }
+    expect(() =>
+      applyPatch(data, [{ op: "copy", from: "/__proto__", path: "/b" }]),
+    ).toThrow(PatchError);
+    expect(() =>
+      applyPatch(data, [{ op: "replace", path: "/toString", value: 1 }]),
+    ).toThrow("Path not found: /toString");
+    expect(({} as any).polluted).toBeUndefined();
+    expect(data).toEqual({ a: {} });
+  });
+
+  test("should only insert models into collections", () => {
+    const alice = new Model({ primaryKey: "id", values: { id: 1 } });
+    const bob = new Model({ primaryKey: "id", values: { id: 2 } });
+    const people = new Collection([alice]);
+    const obj = new ObservableObject({ people, others: new Collection([bob]) });
+
+    expect(() =>
+      applyPatch(obj, [
+        { op: "add", path: "/people/-", value: bob },
+        { op: "add", path: "/people/-", value: { id: 3 } },
+      ]),
+    ).toThrow("Not a model: /people/-");
+    expect(people.toJSON()).toEqual([alice]);
+
+    applyPatch(obj, [{ op: "move", from: "/others/0", path: "/people/0" }]);
+    expect(people.toJSON()).toEqual([bob, alice]);
+  });
+
+  test("should not change views", () => {
+    const list = new ObservableList([1, 2]);
+    const obj = new ObservableObject({ name: "John", view: list.view() });
+
+    expect(() =>
+      applyPatch(obj, [
+        { op: "replace", path: "/name", value: "Jane" },
+        { op: "remove", path: "/view/0" },
+      ]),
+    ).toThrow("Cannot change a view: /view/0");
+    expect(obj.get("name")).toBe("John");
+    expect(list.toJSON()).toEqual([1, 2]);
+  });
+
+  test("should not move a value into itself", () => {
+    const data = { a: { b: 1 } };
+
+    expect(() =>
+      applyPatch(data, [{ op: "move", from: "/a", path: "/a/c" }]),
+    ).toThrow("Cannot move /a into itself");
+    expect(data).toEqual({ a: { b: 1 } });
+  });
+});
+
+describe("diff", () => {
+  test("should return the changes between two values", () => {
+    const from = { name: "John", tags: ["a", "b"], address: { city: "Oslo" } };
+    const to = {
+      name: "John",
+      tags: new ObservableList(["a"]),
+      address: new ObservableObject({ city: "Bergen", zip: "5003" }),
+      age: 30,
+    };
+
+    expect(diff(from, to)).toEqual([
+      { op: "remove", path: "/tags/1" },
+      { op: "replace", path: "/address/city", value: "Bergen" },
+      { op: "add", path: "/address/zip", value: "5003" },
+      { op: "add", path: "/age", value: 30 },
+    ]);
+  });
+
+  test("should produce a patch turning one value into the other", () => {
+    const from = { items: [{ qty: 1 }, { qty: 2 }, { qty: 3 }], note: "x" };
+    const to = { items: [{ qty: 1 }, { qty: 5 }] };
+    const copy = structuredClone(from);
+
+    applyPatch(copy, diff(from, to));
+
+    expect(copy).toEqual(to);
+  });
+});
@@ -0,0 +1,437 @@
+import { batch } from "./batch.js";
+import { Collection } from "./collection.js";
+import type { ChangePath, DeepChangeEvent, DeepEvents } from "./deep.js";
+import type { IEventEmitter, Subscription } from "./emitter.js";
+import { ListView, ObservableList } from "./list.js";
+import { Model } from "./model.js";
+import { ObservableObject } from "./object.js";
+
+/**
+ * A JSON Patch operation, see RFC 6902
+ */
+export type PatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: unknown };
+
+export type Patch = PatchOperation[];
+
+export class PatchError extends Error {
+  readonly operation: PatchOperation;
+  constructor(message: string, operation: PatchOperation) {
+    super(message);
+    this.name = "PatchError";
+    this.operation = operation;
+  }
+}
+
+/**
+ * Formats `path` as a JSON Pointer, see RFC 6901
+ */
+export function toPointer(path: ChangePath): string {
+  return path
+    .map((key) => `/${String(key).replace(/~/g, "~0").replace(/\//g, "~1")}`)
+    .join("");
+}
+
+/**
+ * Splits a JSON Pointer into its keys
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) {
+    throw new SyntaxError(`Invalid JSON Pointer: ${pointer}`);
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((key) => key.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Converts observables in `value` to plain JSON data
+ */
+export function toPlain(value: unknown): unknown {
+  if (value instanceof ObservableList) {
+    return value.toJSON().map(toPlain);
+  }
+  if (value instanceof ObservableObject) {
+    return toPlain(value.toJSON());
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlain);
+  }
+  if (isPlainObject(value)) {
+    const out: Record<string, unknown> = {};
+    for (const key in value) {
+      out[key] = toPlain(value[key]);
+    }
+    return out;
+  }
+  return value;
+}
+
+/**
+ * The patch operations for a deep change, see `ObservableObject` and
+ * `ObservableList`
+ */
+export function changeToPatch(event: DeepChangeEvent): Patch {
+  const { change } = event;
+  const path = toPointer(event.path);
+
+  if ("key" in change) {
+    if (change.value === undefined) {
+      return [{ op: "remove", path }];
+    }
+    const op = change.prev === undefined ? "add" : "replace";
+    return [{ op, path, value: toPlain(change.value) }];
+  }
+
+  switch (change.type) {
+    case "set":
+      return [{ op: "replace", path, value: toPlain(change.item) }];
+    case "insert":
+      return [{ op: "add", path, value: toPlain(change.item) }];
+    case "push":
+      return change.items.map((item) => ({
+        op: "add",
+        path: `${path}/-`,
+        value: toPlain(item),
+      }));
+    case "pop":
+    case "remove":
+      return [{ op: "remove", path }];
+  }
+}
+
+/**
+ * Calls `listener` with a patch for every change of `target`. Deep targets
+ * report the changes of their nested observables too.
+ */
+export function watchPatches(
+  target: IEventEmitter<DeepEvents>,
+  listener: (patch: Patch) => void,
+): Subscription {
+  return target.on("deepChange", (e) => {
+    const patch = changeToPatch(e);
+    if (patch.length) listener(patch);
+  });
+}
+
+/**
+ * The patch turning `from` into `to`. Observables are compared by their
+ * values.
+ */
+export function diff(from: unknown, to: unknown): Patch {
+  const patch: Patch = [];
+  diffValues(toPlain(from), toPlain(to), [], patch);
+  return patch;
+}
+
+function diffValues(
+  from: unknown,
+  to: unknown,
+  path: ChangePath,
+  patch: Patch,
+) {
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const common = Math.min(from.length, to.length);
+    for (let i = 0; i < common; i++) {
+      diffValues(from[i], to[i], [...path, i], patch);
+    }
+    for (let i = from.length - 1; i >= to.length; i--) {
+      patch.push({ op: "remove", path: toPointer([...path, i]) });
+    }
+    for (let i = from.length; i < to.length; i++) {
+      patch.push({ op: "add", path: toPointer([...path, i]), value: to[i] });
+    }
+  } else if (isPlainObject(from) && isPlainObject(to)) {
+    for (const key in from) {
+      if (to[key] === undefined && from[key] !== undefined) {
+        patch.push({ op: "remove", path: toPointer([...path, key]) });
+      }
+    }
+    for (const key in to) {
+      if (to[key] === undefined) continue;
+      if (from[key] === undefined) {
+        patch.push({
+          op: "add",
+          path: toPointer([...path, key]),
+          value: to[key],
+        });
+      } else {
+        diffValues(from[key], to[key], [...path, key], patch);
+      }
+    }
+  } else if (!isEqualJSON(from, to)) {
+    patch.push({ op: "replace", path: toPointer(path), value: to });
+  }
+}
+
+/**
+ * Applies `patch` to `target`, which may hold observables as well as plain
+ * objects and arrays. Observables are updated in place, in a single `batch`.
+ * Values are inserted as given. Throws a `PatchError` when an operation does
+ * not apply, leaving `target` unchanged. Paths through `__proto__`,
+ * `constructor` or `prototype` never apply.
+ *
+ * The patch is tried on a copy of `target` first, which costs a copy of its
+ * objects and arrays.
+ */
+export function applyPatch(target: object, patch: Patch) {
+  const copy = copyContainers(target) as object;
+  for (const operation of patch) {
+    applyOperation(copy, operation);
+  }
+
+  batch(() => {
+    for (const operation of patch) {
+      applyOperation(target, operation);
+    }
+  });
+}
+
+// The observables copied for trying a patch, by their copy, so the trial
+// follows the rules of the observables
+const originals = new WeakMap<object, object>();
+
+// Copies the objects, arrays and observables of `value` as plain data, for
+// trying a patch. Other values are shared.
+function copyContainers(value: unknown): unknown {
+  if (value instanceof ObservableList) {
+    const copy = value.toJSON().map(copyContainers);
+    originals.set(copy, value);
+    return copy;
+  }
+  if (value instanceof ObservableObject) {
+    const copy = copyContainers(value.toJSON()) as object;
+    originals.set(copy, value);
+    return copy;
+  }
+  if (Array.isArray(value)) {
+    return value.map(copyContainers);
+  }
+  if (isPlainObject(value)) {
+    const out: Record<string, unknown> = {};
+    for (const key in value) {
+      out[key] = copyContainers(value[key]);
+    }
+    return out;
+  }
+  return value;
+}
+
+// Throws when `parent`, or the observable it is a copy of, does not take
+// the change: views are read-only and collections hold models only
+function checkChange(
+  parent: object,
+  pointer: string,
+  operation: PatchOperation,
+  ...values: unknown[]
+) {
+  const container = originals.get(parent) ?? parent;
+  if (container instanceof ListView) {
+    throw new PatchError(`Cannot change a view: ${pointer}`, operation);
+  }
+  if (container instanceof Collection) {
+    const models = values.every(
+      (value) =>
+        value instanceof Model ||
+        (value instanceof Object && originals.get(value) instanceof Model),
+    );
+    if (!models) {
+      throw new PatchError(`Not a model: ${pointer}`, operation);
+    }
+  }
+}
+
+function applyOperation(target: object, operation: PatchOperation) {
+  switch (operation.op) {
+    case "add":
+      return add(target, operation.path, operation.value, operation);
+    case "remove":
+      return remove(target, operation.path, operation);
+    case "replace":
+      return replace(target, operation.path, operation.value, operation);
+    case "move": {
+      if (isPointerPrefix(operation.from, operation.path)) {
+        throw new PatchError(
+          `Cannot move ${operation.from} into itself`,
+          operation,
+        );
+      }
+      const value = remove(target, operation.from, operation);
+      return add(target, operation.path, value, operation);
+    }
+    case "copy": {
+      const value = toPlain(get(target, operation.from, operation));
+      return add(target, operation.path, structuredClone(value), operation);
+    }
+    case "test": {
+      const value = toPlain(get(target, operation.path, operation));
+      if (!isEqualJSON(value, operation.value)) {
+        throw new PatchError(`Test failed: ${operation.path}`, operation);
+      }
+    }
+  }
+}
+
+// Keys reaching the prototype of an object rather than its own properties
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+// The container holding the value at `pointer`, and its key
+function resolve(target: object, pointer: string, operation: PatchOperation) {
+  const keys = parsePointer(pointer);
+  if (keys.some((key) => UNSAFE_KEYS.has(key))) {
+    throw new PatchError(`Unsafe path: ${pointer}`, operation);
+  }
+  const key = keys.pop();
+  if (key === undefined) {
+    throw new PatchError("Cannot change the root", operation);
+  }
+
+  let parent: unknown = target;
+  for (const segment of keys) {
+    parent = child(parent, segment);
+    if (parent == null || typeof parent !== "object") {
+      throw new PatchError(`Path not found: ${pointer}`, operation);
+    }
+  }
+  return { parent: parent as object, key };
+}
+
+function child(parent: unknown, key: string): unknown {
+  if (parent instanceof ObservableList) return parent.at(Number(key));
+  if (parent instanceof ObservableObject) return parent.get(key);
+  if (parent == null || typeof parent !== "object") return undefined;
+  return Object.hasOwn(parent, key) ? (parent as any)[key] : undefined;
+}
+
+function get(target: object, pointer: string, operation: PatchOperation) {
+  if (pointer === "") return target;
+  const { parent, key } = resolve(target, pointer, operation);
+  return child(parent, key);
+}
+
+function add(
+  target: object,
+  pointer: string,
+  value: unknown,
+  operation: PatchOperation,
+) {
+  const { parent, key } = resolve(target, pointer, operation);
+  checkChange(parent, pointer, operation, value);
+
+  if (parent instanceof ObservableList || Array.isArray(parent)) {
+    const index = key === "-" ? parent.length : toIndex(key, operation);
+    if (index > parent.length) {
+      throw new PatchError(`Index out of bounds: ${pointer}`, operation);
+    }
+    if (Array.isArray(parent)) {
+      parent.splice(index, 0, value);
+    } else if (index === parent.length) {
+      parent.push(value);
+    } else {
+      parent.insert(index, value);
+    }
+  } else if (parent instanceof ObservableObject) {
+    parent.set(key, value);
+  } else {
+    (parent as any)[key] = value;
+  }
+}
+
+function replace(
+  target: object,
+  pointer: string,
+  value: unknown,
+  operation: PatchOperation,
+) {
+  const { parent, key } = resolve(target, pointer, operation);
+  checkChange(parent, pointer, operation, value);
+
+  if (parent instanceof ObservableList || Array.isArray(parent)) {
+    const index = toIndex(key, operation);
+    if (index >= parent.length) {
+      throw new PatchError(`Index out of bounds: ${pointer}`, operation);
+    }
+    if (Array.isArray(parent)) {
+      parent[index] = value;
+    } else {
+      parent.set(index, value);
+    }
+  } else if (child(parent, key) === undefined) {
+    throw new PatchError(`Path not found: ${pointer}`, operation);
+  } else if (parent instanceof ObservableObject) {
+    parent.set(key, value);
+  } else {
+    (parent as any)[key] = value;
+  }
+}
+
+function remove(target: object, pointer: string, operation: PatchOperation) {
+  const { parent, key } = resolve(target, pointer, operation);
+  checkChange(parent, pointer, operation);
+
+  if (parent instanceof ObservableList || Array.isArray(parent)) {
+    const index = toIndex(key, operation);
+    if (index >= parent.length) {
+      throw new PatchError(`Index out of bounds: ${pointer}`, operation);
+    }
+    return Array.isArray(parent)
+      ? parent.splice(index, 1)[0]
+      : parent.remove(index);
+  }
+
+  const value = child(parent, key);
+  if (value === undefined) {
+    throw new PatchError(`Path not found: ${pointer}`, operation);
+  }
+  if (parent instanceof ObservableObject) {
+    parent.set(key, undefined);
+  } else {
+    delete (parent as any)[key];
+  }
+  return value;
+}
+
+// Whether `pointer` points below `prefix`
+function isPointerPrefix(prefix: string, pointer: string) {
+  const a = parsePointer(prefix);
+  const b = parsePointer(pointer);
+  return a.length < b.length && a.every((key, i) => key === b[i]);
+}
+
+function toIndex(key: string, operation: PatchOperation) {
+  if (!/^(0|[1-9][0-9]*)$/.test(key)) {
+    throw new PatchError(`Invalid index: ${key}`, operation);
+  }
+  return Number(key);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value == null || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function isEqualJSON(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqualJSON(v, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => isEqualJSON(a[key], b[key]))
+    );
+  }
+  return false;
+}
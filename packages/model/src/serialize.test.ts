@@ -0,0 +1,87 @@
+import { describe, test, expect, vi } from "vitest";
+import { deserialize, serialize } from "./serialize";
+import { ObservableList } from "./list";
+import { Model } from "./model";
+import { ObservableObject } from "./object";
+
+describe("serialize", () => {
+  test("should keep plain data", () => {
+    const data = { name: "John", tags: ["a", "b"], age: 30, active: null };
+
+    expect(serialize(data)).toEqual(data);
+    expect(deserialize(serialize(data))).toEqual(data);
+  });
+
+  test("should survive JSON", () => {
+    const value = {
+      tags: new ObservableList(["a"]),
+      born: new Date("2000-01-02T00:00:00.000Z"),
+    };
+
+    const restored = deserialize(
+      JSON.parse(JSON.stringify(serialize(value))),
+    ) as typeof value;
+
+    expect(restored.tags).toBeInstanceOf(ObservableList);
+    expect(restored.tags.toJSON()).toEqual(["a"]);
+    expect(restored.born).toEqual(value.born);
+  });
+
+  test("should drop values which cannot be represented", () => {
+    expect(serialize({ fn: () => {}, file: new File([], "a.txt") })).toEqual({
+      fn: undefined,
+      file: undefined,
+    });
+  });
+});
+
+describe("deserialize", () => {
+  test("should restore models with their primary key", () => {
+    const model = new Model({
+      primaryKey: "id",
+      values: { id: 1, name: "Alice" },
+    });
+
+    const restored = deserialize(serialize(model)) as typeof model;
+
+    expect(restored).toBeInstanceOf(Model);
+    expect(restored.id).toBe(1);
+    expect(restored.toJSON()).toEqual({ id: 1, name: "Alice" });
+  });
+
+  test("should restore nested observables", () => {
+    const obj = new ObservableObject({
+      items: new ObservableList([
+        new Model({ primaryKey: "id", values: { id: 1 } }),
+      ]),
+    });
+
+    const restored = deserialize(serialize(obj)) as typeof obj;
+
+    expect(restored).toBeInstanceOf(ObservableObject);
+    expect(restored.get("items").at(0)).toBeInstanceOf(Model);
+    expect(restored.get("items").at(0)!.id).toBe(1);
+  });
+
+  test("should update observables in place", () => {
+    const list = new ObservableList([1, 2, 3]);
+    const model = new Model({
+      primaryKey: "id",
+      values: { id: 1, name: "Alice" },
+    });
+    const listener = vi.fn();
+    list.on("change", listener);
+
+    const data = serialize({
+      list: new ObservableList([5, 6]),
+      model: new Model({ primaryKey: "id", values: { id: 1, name: "Bob" } }),
+    });
+    const restored = deserialize(data, { list, model }) as any;
+
+    expect(restored.list).toBe(list);
+    expect(list.toJSON()).toEqual([5, 6]);
+    expect(listener).toHaveBeenCalled();
+    expect(restored.model).toBe(model);
+    expect(model.toJSON()).toEqual({ id: 1, name: "Bob" });
+  });
+});
@@ -0,0 +1,130 @@
+import { ObservableList } from "./list.js";
+import { Model } from "./model.js";
+import { ObservableObject } from "./object.js";
+
+// Tags marking the observables in serialized data
+const LIST = "@list";
+const MODEL = "@model";
+const OBJECT = "@object";
+const PRIMARY_KEY = "@primaryKey";
+const DATE = "@date";
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value == null || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Converts `value` to plain JSON data. Observable lists, models and objects
+ * as well as dates are tagged, so `deserialize` can restore them. Values
+ * which cannot be represented, like functions and files, become `undefined`.
+ */
+export function serialize(value: unknown): unknown {
+  if (value instanceof ObservableList) {
+    return { [LIST]: value.toJSON().map(serialize) };
+  }
+  if (value instanceof Model) {
+    return {
+      [MODEL]: serializeEntries(value.entries()),
+      [PRIMARY_KEY]: value.primaryKey,
+    };
+  }
+  if (value instanceof ObservableObject) {
+    return { [OBJECT]: serializeEntries(value.entries()) };
+  }
+  if (value instanceof Date) {
+    return { [DATE]: value.toISOString() };
+  }
+  if (Array.isArray(value)) {
+    return value.map(serialize);
+  }
+  if (isPlainObject(value)) {
+    return serializeEntries(Object.entries(value));
+  }
+  if (
+    value === null ||
+    ["string", "number", "boolean"].includes(typeof value)
+  ) {
+    return value;
+  }
+  return undefined;
+}
+
+function serializeEntries(entries: Iterable<[PropertyKey, unknown]>) {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of entries) {
+    out[String(key)] = serialize(value);
+  }
+  return out;
+}
+
+/**
+ * Restores data created by `serialize`. Observables found at the same place
+ * in `into` are updated in place rather than replaced, which keeps their
+ * subscribers and their class.
+ */
+export function deserialize(data: unknown, into?: unknown): unknown {
+  if (Array.isArray(data)) {
+    return data.map((item, i) =>
+      deserialize(item, Array.isArray(into) ? into[i] : undefined),
+    );
+  }
+  if (!isPlainObject(data)) {
+    return data;
+  }
+
+  if (LIST in data) {
+    const items = data[LIST] as unknown[];
+    if (into instanceof ObservableList) {
+      replaceItems(into, items);
+      return into;
+    }
+    return new ObservableList(items.map((item) => deserialize(item)));
+  }
+
+  if (MODEL in data || OBJECT in data) {
+    const values = (data[MODEL] ?? data[OBJECT]) as Record<string, unknown>;
+    if (into instanceof ObservableObject) {
+      for (const key in values) {
+        into.set(key, deserialize(values[key], into.get(key)));
+      }
+      return into;
+    }
+
+    const restored = deserializeEntries(values);
+    return MODEL in data
+      ? new Model({ primaryKey: data[PRIMARY_KEY] as string, values: restored })
+      : new ObservableObject(restored);
+  }
+
+  if (DATE in data) {
+    return new Date(data[DATE] as string);
+  }
+
+  return deserializeEntries(data, isPlainObject(into) ? into : undefined);
+}
+
+function deserializeEntries(
+  data: Record<string, unknown>,
+  into?: Record<string, unknown>,
+) {
+  const out: Record<string, unknown> = {};
+  for (const key in data) {
+    out[key] = deserialize(data[key], into?.[key]);
+  }
+  return out;
+}
+
+function replaceItems(list: ObservableList<unknown>, items: unknown[]) {
+  while (list.length > items.length) {
+    list.pop();
+  }
+  items.forEach((item, i) => {
+    if (i < list.length) {
+      list.set(i, deserialize(item, list.at(i)));
+    } else {
+      list.push(deserialize(item));
+    }
+  });
+}
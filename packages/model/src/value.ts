@@ -1,4 +1,5 @@
 import { Base, ChangeEvent } from "./base.js";
+import { coalesceChanges } from "./batch.js";
 import { EventEmitter, Subscription } from "./emitter.js";
 import { Equality, isEqual } from "./util.js";
 
@@ -9,7 +10,10 @@ interface ValueEvents<T> {
 export class Value<T> extends Base<T | undefined> {
   #value: T | undefined;
   #equal: Equality<T>;
-  #emitter: EventEmitter<ValueEvents<T>> = new EventEmitter();
+  #emitter: EventEmitter<ValueEvents<T>> = new EventEmitter({
+    coalesce: coalesceChanges((a, b) => this.#equal(a, b)),
+    target: this,
+  });
 
   constructor(value?: T, equal: Equality<T> = isEqual) {
     super();
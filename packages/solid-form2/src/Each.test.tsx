@@ -0,0 +1,76 @@
+import { describe, test, expect } from "vitest";
+import { onCleanup } from "solid-js";
+import { render } from "solid-js/web";
+import { ObservableList } from "@kildevaeld/model";
+import { Each } from "./Each.jsx";
+
+describe("Each", () => {
+  test("should render an element per item", () => {
+    const list = new ObservableList(["a", "b"]);
+    const container = document.createElement("div");
+
+    const dispose = render(
+      () => <Each items={list}>{(item) => <span>{item()}</span>}</Each>,
+      container,
+    );
+
+    list.push("c");
+    expect(container.textContent).toBe("abc");
+
+    list.remove(1);
+    expect(container.textContent).toBe("ac");
+
+    dispose();
+  });
+
+  test("should keep the indexes of inserted items", () => {
+    const list = new ObservableList(["a", "b"]);
+    const container = document.createElement("div");
+
+    const dispose = render(
+      () => (
+        <Each items={list}>
+          {(item, index) => (
+            <span>
+              {index()}
+              {item()}
+            </span>
+          )}
+        </Each>
+      ),
+      container,
+    );
+
+    list.insert(0, "c");
+    expect(container.textContent).toBe("0c1a2b");
+
+    dispose();
+  });
+
+  test("should dispose the item which is removed", () => {
+    const list = new ObservableList(["a", "b"]);
+    const container = document.createElement("div");
+    const disposed: string[] = [];
+
+    const dispose = render(
+      () => (
+        <Each items={list}>
+          {(item) => {
+            const value = item();
+            onCleanup(() => disposed.push(value));
+            return <span>{value}</span>;
+          }}
+        </Each>
+      ),
+      container,
+    );
+
+    list.insert(0, "c");
+    list.remove(0);
+
+    expect(disposed).toEqual(["c"]);
+    expect(container.textContent).toBe("ab");
+
+    dispose();
+  });
+});
@@ -93,7 +93,7 @@ export function Each<T extends IObservableList<any>>(
                 event.index,
                 0,
                 createRoot((dispose) => {
-                  disposers.push(dispose);
+                  disposers.splice(event.index, 0, dispose);
                   const [val, set] = createSignal(event.item);
                   items.splice(event.index, 0, set);
 
@@ -110,8 +110,7 @@ export function Each<T extends IObservableList<any>>(
             }
             break;
           case "set":
-            {
-            }
+            items[event.index]?.(() => event.item);
             break;
         }
 
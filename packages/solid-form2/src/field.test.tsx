@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from "vitest";
 import { createRoot, createEffect, createSignal } from "solid-js";
 import { createField } from "./field.js";
+import { createForm } from "./form.js";
 import { Field } from "@kildevaeld/form";
 import { createAsyncRoot, waitForCondition, pollCondition } from "./util.js";
 
@@ -307,4 +308,110 @@ describe("createField control directive", () => {
       document.body.removeChild(input);
     });
   });
+
+  test("should pass the upload option to file inputs", async () => {
+    await createAsyncRoot(async () => {
+      const baseField = new Field<"files", File[]>({ name: "files" });
+      const field = createField("form", baseField, "change");
+      const upload = vi.fn(async () => {});
+
+      const input = document.createElement("input");
+      input.type = "file";
+      document.body.appendChild(input);
+
+      field.control(input, () => ({ upload }));
+
+      // Files can only be chosen by the user, so they are set on the input
+      const file = new File(["abc"], "a.txt", { type: "text/plain" });
+      const transfer = new DataTransfer();
+      transfer.items.add(file);
+      input.files = transfer.files;
+      input.dispatchEvent(new Event("change", { bubbles: true }));
+
+      await waitForCondition(() => upload.mock.calls.length > 0);
+
+      expect(upload).toHaveBeenCalledWith(file, expect.anything());
+
+      // Cleanup
+      document.body.removeChild(input);
+    });
+  });
+});
+
+describe("createFieldArray", () => {
+  interface TodoFields {
+    todos: string[];
+  }
+
+  test("should reuse the api of an item", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TodoFields>({
+        defaultValues: () => ({ todos: ["a", "b"] }),
+      });
+      const todos = form.array("todos");
+
+      const first = todos.fields.at(0)!;
+      expect(todos.item(first)).toBe(todos.item(first));
+      expect(todos.item(first).value()).toBe("a");
+    });
+  });
+
+  test("should update the value as items change", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TodoFields>({
+        defaultValues: () => ({ todos: ["a"] }),
+      });
+      const todos = form.array("todos");
+
+      const runs: (string[] | undefined)[] = [];
+      createEffect(() => runs.push(todos.value()?.slice()));
+
+      // Wait for the effect to run
+      await Promise.resolve();
+
+      todos.append("b", "c");
+      todos.move(2, 0);
+      todos.remove(1);
+
+      expect(runs).toEqual([
+        ["a"],
+        ["a", "b", "c"],
+        ["c", "a", "b"],
+        ["c", "b"],
+      ]);
+    });
+  });
+
+  test("should release the api of removed items", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TodoFields>({
+        defaultValues: () => ({ todos: ["a", "b"] }),
+      });
+      const todos = form.array("todos");
+
+      // Wait for the array to subscribe to its items
+      await Promise.resolve();
+
+      const first = todos.fields.at(0)!;
+      const api = todos.item(first);
+      todos.remove(0);
+
+      expect(todos.item(first)).not.toBe(api);
+    });
+  });
+
+  test("should track the item values", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TodoFields>({
+        defaultValues: () => ({ todos: ["a"] }),
+      });
+      const todos = form.array("todos");
+      const item = todos.item(todos.fields.at(0)!);
+
+      item.setValue("b");
+
+      expect(item.value()).toBe("b");
+      expect(form.form.toJSON().todos).toEqual(["b"]);
+    });
+  });
 });
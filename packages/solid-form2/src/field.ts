@@ -1,12 +1,28 @@
-import type { Field, FormFields, ValidationError } from "@kildevaeld/form";
+import type {
+  Field,
+  FieldArray,
+  FormFields,
+  ValidationError,
+} from "@kildevaeld/form";
 import {
+  CheckboxGroupController,
+  ElementController,
+  type FilePreview,
+  FileInputController,
+  type FileUpload,
   InputController,
+  RadioGroupController,
   SelectController,
   ValidateMode,
 } from "@kildevaeld/form/dom";
 import { createTriggerCache } from "@solid-primitives/trigger";
-import { Accessor, onCleanup } from "solid-js";
-import { useEvents } from "./hooks";
+import {
+  type IObservableList,
+  type ListEvents,
+  ObservableList,
+} from "@kildevaeld/model";
+import { Accessor, createRoot, getOwner, onCleanup } from "solid-js";
+import { transaction, useEvents } from "./hooks";
 
 export interface Aria {
   readonly hint: string;
@@ -14,27 +30,74 @@ export interface Aria {
   readonly control: string;
 }
 
+/**
+ * Options of the `control` directive for file inputs, eg.
+ * `use:control={{ upload }}`
+ */
+export interface ControlOptions {
+  upload?: FileUpload;
+  onPreviews?: (previews: FilePreview[]) => void;
+}
+
 export interface FieldApi<T> {
   readonly name: string;
   readonly aria: Aria;
+  /**
+   * Whether the field is computed by the form, see `FormOptions.computed`
+   */
+  readonly readOnly: boolean;
   value: Accessor<T | undefined>;
   setValue(value: T | undefined): void;
   control: <E extends HTMLElement>(
     el: E,
-    p?: Accessor<true | "input" | "change">,
+    p?: Accessor<true | "input" | "change" | ControlOptions>,
   ) => void;
   dirty: Accessor<boolean>;
   valid: Accessor<boolean>;
+  validating: Accessor<boolean>;
+  touched: Accessor<boolean>;
+  visited: Accessor<boolean>;
+  focused: Accessor<boolean>;
+  hidden: Accessor<boolean>;
+  disabled: Accessor<boolean>;
   errors: Accessor<ValidationError[]>;
   validate(): Promise<boolean>;
 }
 
+export interface FieldArrayApi<T> extends FieldApi<T[]> {
+  /**
+   * The item fields, suitable for `Each`
+   */
+  readonly fields: IObservableList<Field<string, T>>;
+  item(field: Field<string, T>): FieldApi<T>;
+  append(...values: T[]): void;
+  insert(index: number, value: T): void;
+  remove(index: number): T | undefined;
+  move(from: number, to: number): void;
+  swap(a: number, b: number): void;
+}
+
+/**
+ * Elements registered through `control`, mapped to their field
+ */
+export type Controls = Map<HTMLElement, Field<string, any>>;
+
 export function createField<K, T>(
   formId: string,
   field: Field<K, T>,
   validationMode: ValidateMode,
+  controls?: Controls,
 ): FieldApi<T> {
-  const [track, dirty] = createTriggerCache<"$value" | "$errors">();
+  const [track, dirty] = createTriggerCache<
+    | "$value"
+    | "$errors"
+    | "$validating"
+    | "$touched"
+    | "$visited"
+    | "$focused"
+    | "$hidden"
+    | "$disabled"
+  >();
 
   useEvents(field, {
     change: () => {
@@ -43,6 +106,24 @@ export function createField<K, T>(
     validate: () => {
       dirty("$errors");
     },
+    validating: () => {
+      dirty("$validating");
+    },
+    touch: () => {
+      dirty("$touched");
+    },
+    visit: () => {
+      dirty("$visited");
+    },
+    focus: () => {
+      dirty("$focused");
+    },
+    hide: () => {
+      dirty("$hidden");
+    },
+    disable: () => {
+      dirty("$disabled");
+    },
     reset: () => {
       dirty("$errors");
     },
@@ -52,13 +133,14 @@ export function createField<K, T>(
 
   return {
     name: field.name as string,
+    readOnly: field.isReadOnly,
     aria: {
       hint: `${prefix}-hint`,
       error: `${prefix}-error`,
       control: `${prefix}-control`,
     },
     setValue(value: T) {
-      field.setValue(value);
+      transaction(() => field.setValue(value));
     },
     validate() {
       return field.validate();
@@ -67,6 +149,30 @@ export function createField<K, T>(
       track("$errors");
       return field.isValid;
     },
+    validating() {
+      track("$validating");
+      return field.isValidating;
+    },
+    touched() {
+      track("$touched");
+      return field.isTouched;
+    },
+    visited() {
+      track("$visited");
+      return field.isVisited;
+    },
+    focused() {
+      track("$focused");
+      return field.isFocused;
+    },
+    hidden() {
+      track("$hidden");
+      return field.isHidden;
+    },
+    disabled() {
+      track("$disabled");
+      return field.isDisabled;
+    },
     dirty: () => {
       track("$value");
       return field.isDirty;
@@ -79,20 +185,147 @@ export function createField<K, T>(
       track("$errors");
       return field.errors;
     },
-    control: createControl(field as Field<string, T>, validationMode),
+    control: createControl(
+      field as Field<string, T>,
+      validationMode,
+      controls,
+    ),
+  };
+}
+
+export function createFieldArray<K, T>(
+  formId: string,
+  array: FieldArray<K, T>,
+  validationMode: ValidateMode,
+  controls?: Controls,
+): FieldArrayApi<T> {
+  const owner = getOwner();
+  const items = new Map<
+    Field<string, T>,
+    { api: FieldApi<T>; dispose: () => void }
+  >();
+
+  const release = (field: Field<string, T> | undefined) => {
+    const entry = field && items.get(field);
+    if (entry) {
+      entry.dispose();
+      items.delete(field);
+    }
+  };
+
+  useEvents<ListEvents<Field<string, T>>>(array.fields, {
+    change: (event) => {
+      switch (event.type) {
+        case "pop":
+        case "remove":
+          release(event.item);
+          break;
+        case "set":
+          release(event.prev);
+          break;
+      }
+    },
+  });
+
+  onCleanup(() => {
+    for (const entry of items.values()) {
+      entry.dispose();
+    }
+    items.clear();
+  });
+
+  return {
+    ...createField(formId, array, validationMode, controls),
+    fields: array.fields,
+    item(field: Field<string, T>) {
+      let entry = items.get(field);
+      if (!entry) {
+        entry = createRoot(
+          (dispose) => ({
+            api: createField(formId, field, validationMode, controls),
+            dispose,
+          }),
+          owner,
+        );
+        items.set(field, entry);
+      }
+      return entry.api;
+    },
+    append(...values: T[]) {
+      transaction(() => array.append(...values));
+    },
+    insert(index: number, value: T) {
+      transaction(() => array.insert(index, value));
+    },
+    remove(index: number) {
+      return transaction(() => array.remove(index));
+    },
+    move(from: number, to: number) {
+      transaction(() => array.move(from, to));
+    },
+    swap(a: number, b: number) {
+      transaction(() => array.swap(a, b));
+    },
   };
 }
 
+// Radios always share their field, checkboxes when it holds a list of values
+function isGroupInput(
+  el: HTMLElement,
+  field: Field<string, any>,
+): el is HTMLInputElement {
+  if (!(el instanceof HTMLInputElement)) return false;
+  if (el.type === "radio") return true;
+  return (
+    el.type === "checkbox" &&
+    (Array.isArray(field.value) || field.value instanceof ObservableList)
+  );
+}
+
 export function createControl<T>(
   field: Field<string, T>,
   validateMode: ValidateMode,
+  controls?: Controls,
 ) {
+  // Inputs of a radio or checkbox group share one controller
+  let group: RadioGroupController | CheckboxGroupController<any> | undefined;
+
   return <E extends HTMLElement>(
     el: E,
-    p?: Accessor<true | "input" | "change">,
+    p?: Accessor<true | "input" | "change" | ControlOptions>,
   ) => {
+    if (isGroupInput(el, field)) {
+      if (!group) {
+        const options = { field: field as Field<string, any>, validateMode };
+        group =
+          el.type === "radio"
+            ? new RadioGroupController([], options)
+            : new CheckboxGroupController([], options);
+        group.enable();
+      }
+      const current = group;
+      current.add(el);
+      controls?.set(el, field);
+
+      onCleanup(() => {
+        if (!current.remove(el)) {
+          current.disable();
+          if (group === current) group = undefined;
+        }
+        controls?.delete(el);
+      });
+      return;
+    }
+
     let ctrl;
-    if (el instanceof HTMLInputElement) {
+    if (el instanceof HTMLInputElement && el.type === "file") {
+      const options = p?.();
+      ctrl = new FileInputController(el, {
+        field: field as Field<string, any>,
+        validateMode,
+        ...(typeof options === "object" ? options : {}),
+      });
+    } else if (el instanceof HTMLInputElement) {
       ctrl = new InputController(el, {
         field,
         validateMode,
@@ -102,17 +335,25 @@ export function createControl<T>(
         field,
         validateMode,
       });
-    } else {
+    } else if (el instanceof HTMLTextAreaElement) {
       ctrl = new InputController(el, {
         field,
         validateMode,
       });
+    } else {
+      // contenteditable regions and components with a control protocol
+      ctrl = new ElementController(el, {
+        field,
+        validateMode,
+      });
     }
 
     ctrl.enable();
+    controls?.set(el, field);
 
     onCleanup(() => {
       ctrl.disable();
+      controls?.delete(el);
     });
   };
 }
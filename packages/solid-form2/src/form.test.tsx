@@ -3,6 +3,7 @@ import {
   createRoot,
   createSignal,
   createEffect,
+  createMemo,
   getOwner,
   runWithOwner,
 } from "solid-js";
@@ -140,6 +141,31 @@ describe("createForm", () => {
     });
   });
 
+  test("should not validate the fields a reset changes", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TestFormFields>({
+        defaultValues: () => ({ username: "" }),
+        schema: {
+          "~standard": {
+            version: 1,
+            vendor: "test",
+            validate: (input) =>
+              (input as TestFormFields).username
+                ? { value: input as TestFormFields }
+                : { issues: [{ message: "Required", path: ["username"] }] },
+          },
+        },
+      });
+
+      form.field("username").setValue("jane");
+      form.reset();
+      await new Promise((resolve) => setTimeout(resolve));
+
+      expect(form.form.toJSON().username).toBe("");
+      expect(form.form.field("username").isValid).toBe(true);
+    });
+  });
+
   test("should handle form submission", async () => {
     const submitHandler = vi.fn();
 
@@ -166,6 +192,26 @@ describe("createForm", () => {
     });
   });
 
+  test("should track the submit state through a reset", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TestFormFields>({
+        submit: vi.fn(),
+      });
+
+      const submitCount = createMemo(() => form.submitCount());
+      const successful = createMemo(() => form.isSubmitSuccessful());
+
+      const event = new Event("submit", { cancelable: true }) as SubmitEvent;
+      await form.submit(event);
+      expect(submitCount()).toBe(1);
+      expect(successful()).toBe(true);
+
+      form.reset();
+      expect(submitCount()).toBe(0);
+      expect(successful()).toBe(false);
+    });
+  });
+
   test("should validate on submit when validationMode is submit", async () => {
     const submitHandler = vi.fn();
 
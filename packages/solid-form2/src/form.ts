@@ -1,8 +1,13 @@
 import {
   Form as CoreForm,
   FormStatus,
+  type ArrayItem,
+  type ArrayPath,
   type FormFields,
   type FormOptions,
+  type Path,
+  type PathValue,
+  type ValidationError,
 } from "@kildevaeld/form";
 import {
   Accessor,
@@ -13,29 +18,50 @@ import {
   onCleanup,
   runWithOwner,
 } from "solid-js";
-import { createField, FieldApi } from "./field";
+import {
+  Controls,
+  createField,
+  createFieldArray,
+  FieldApi,
+  FieldArrayApi,
+} from "./field";
 import { createTriggerCache } from "@solid-primitives/trigger";
-import { ValidateMode } from "@kildevaeld/form/dom";
-import { useEvents } from "./hooks";
+import { focusFirst, ValidateMode } from "@kildevaeld/form/dom";
+import { transaction, useEvents } from "./hooks";
 
 export interface CreateFormOptions<T extends FormFields> {
   defaultValues?: Accessor<Partial<T> | undefined>;
   fields?: Omit<FormOptions<T>["fields"], "value">;
+  validations?: FormOptions<T>["validations"];
+  computed?: FormOptions<T>["computed"];
+  schema?: FormOptions<T>["schema"];
   submit?: (values: T) => Promise<void> | void;
+  submitOnError?: boolean;
   validationMode?: ValidateMode;
 }
 
 export interface FormApi<T extends FormFields> {
-  field<K extends keyof T>(name: K): FieldApi<T[K]>;
+  field<P extends Path<T>>(name: P): FieldApi<PathValue<T, P>>;
+  array<P extends ArrayPath<T>>(
+    name: P,
+  ): FieldArrayApi<ArrayItem<NonNullable<PathValue<T, P>>>>;
   submit(e: SubmitEvent): Promise<void>;
   reset(): void;
   clear(): void;
   validate(): Promise<boolean>;
+  /**
+   * Runs `fn` as a single update, see `Form.transaction`
+   */
+  transaction<R>(fn: () => R): R;
   valid: Accessor<boolean>;
   dirty: Accessor<boolean>;
+  formErrors: Accessor<ValidationError[]>;
   values: Accessor<T>;
   status: Accessor<FormStatus>;
   isSubmitting: Accessor<boolean>;
+  submitCount: Accessor<number>;
+  isSubmitted: Accessor<boolean>;
+  isSubmitSuccessful: Accessor<boolean>;
   form: CoreForm<T>;
 }
 
@@ -45,22 +71,44 @@ export function createForm<T extends FormFields>(
   const form = new CoreForm<T>({
     fields: options.fields,
     defaultValues: options.defaultValues?.(),
+    validations: options.validations,
+    computed: options.computed,
+    schema: options.schema,
+    submitOnError: options.submitOnError,
   });
 
   const [track, dirty] = createTriggerCache<
-    "$value" | "$status" | "$dirty" | "$valid"
+    | "$value"
+    | "$status"
+    | "$dirty"
+    | "$valid"
+    | "$formErrors"
+    | "$submit"
   >();
 
   const cache = {
     status: form.status,
     valid: form.isValid,
     dirty: form.isDirty,
+    submitCount: form.submitCount,
   };
 
   useEvents(form, {
     change: () => {
       dirty("$value");
     },
+    formValidate: () => {
+      batch(() => {
+        dirty("$formErrors");
+        if (form.status === "idle" && cache.valid !== form.isValid) {
+          cache.valid = form.isValid;
+          dirty("$valid");
+        }
+      });
+    },
+    submit: () => {
+      dirty("$submit");
+    },
     statusChange: () => {
       batch(() => {
         dirty("$status");
@@ -73,6 +121,11 @@ export function createForm<T extends FormFields>(
             cache.dirty = form.isDirty;
             dirty("$dirty");
           }
+          // Resetting and clearing the form start the submit state over
+          if (cache.submitCount !== form.submitCount) {
+            cache.submitCount = form.submitCount;
+            dirty("$submit");
+          }
         }
       });
     },
@@ -81,47 +134,73 @@ export function createForm<T extends FormFields>(
   const owner = getOwner();
   const formId = createUniqueId();
 
-  const fields = new Map<keyof T, FieldApi<T[keyof T]>>();
+  const controls: Controls = new Map();
+  const fields = new Map<string, FieldApi<any>>();
+  const arrays = new Map<string, FieldArrayApi<any>>();
 
   return {
-    field<K extends keyof T>(name: K) {
-      let fieldApi = fields.get(name);
+    field<P extends Path<T>>(name: P) {
+      const field = form.field(name);
+      let fieldApi = fields.get(field.name);
       if (!fieldApi) {
         fieldApi = runWithOwner(owner, () =>
           createField(
             formId,
-            form.field(name),
+            field,
             options.validationMode ?? "change",
+            controls,
           ),
         );
         if (!fieldApi) {
           throw new Error("Run outside owner");
         }
-        fields.set(name, fieldApi);
+        fields.set(field.name, fieldApi);
       }
-      return fields.get(name) as FieldApi<T[K]>;
+      return fieldApi as FieldApi<PathValue<T, P>>;
     },
-    async submit(e: SubmitEvent) {
-      e.preventDefault();
-      if (options.validationMode === "submit") {
-        await form.validate();
-        if (!form.isValid) {
-          return;
+    array<P extends ArrayPath<T>>(name: P) {
+      const array = form.array(name);
+      let arrayApi = arrays.get(array.name);
+      if (!arrayApi) {
+        arrayApi = runWithOwner(owner, () =>
+          createFieldArray(
+            formId,
+            array,
+            options.validationMode ?? "change",
+            controls,
+          ),
+        );
+        if (!arrayApi) {
+          throw new Error("Run outside owner");
         }
+        arrays.set(array.name, arrayApi);
+        fields.set(array.name, arrayApi);
       }
+      return arrayApi as FieldArrayApi<ArrayItem<NonNullable<PathValue<T, P>>>>;
+    },
+    async submit(e: SubmitEvent) {
+      e.preventDefault();
       await form.submit(async (values) => {
         await options.submit?.(values);
       });
+      if (!form.isValid) {
+        focusFirst(
+          Array.from(controls)
+            .filter(([, field]) => !field.isValid)
+            .map(([el]) => el),
+        );
+      }
     },
     reset() {
-      form.reset();
+      transaction(() => form.reset());
     },
     clear() {
-      form.clear();
+      transaction(() => form.clear());
     },
     validate() {
       return form.validate();
     },
+    transaction,
     valid: () => {
       track("$valid");
       return form.isValid;
@@ -130,6 +209,10 @@ export function createForm<T extends FormFields>(
       track("$dirty");
       return form.isDirty;
     },
+    formErrors: () => {
+      track("$formErrors");
+      return form.formErrors;
+    },
     values: () => {
       track("$value");
       return form.toJSON();
@@ -142,6 +225,18 @@ export function createForm<T extends FormFields>(
       track("$status");
       return form.status === "submitting";
     },
+    submitCount: () => {
+      track("$submit");
+      return form.submitCount;
+    },
+    isSubmitted: () => {
+      track("$submit");
+      return form.isSubmitted;
+    },
+    isSubmitSuccessful: () => {
+      track("$submit");
+      return form.isSubmitSuccessful;
+    },
     form,
   };
 }
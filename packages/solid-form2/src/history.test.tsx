@@ -0,0 +1,103 @@
+import { describe, test, expect } from "vitest";
+import { createEffect } from "solid-js";
+import { Form } from "@kildevaeld/form";
+import { History, ObservableList } from "@kildevaeld/model";
+import { createForm } from "./form.js";
+import { createHistory, type HistoryApi, useHistory } from "./history.js";
+import { createAsyncRoot } from "./util.js";
+
+interface TestFormFields {
+  username: string;
+  email: string;
+}
+
+describe("useHistory", () => {
+  test("should track whether there is something to undo and redo", async () => {
+    await createAsyncRoot(async () => {
+      const list = new ObservableList<string>();
+      const history = useHistory(new History());
+      history.history.track(list);
+
+      const states: [boolean, boolean][] = [];
+      createEffect(() => states.push([history.canUndo(), history.canRedo()]));
+
+      // Wait for the effect to run
+      await Promise.resolve();
+
+      list.push("a");
+      history.undo();
+      history.redo();
+
+      expect(list.toJSON()).toEqual(["a"]);
+      expect(states).toEqual([
+        [false, false],
+        [true, false],
+        [false, true],
+        [true, false],
+      ]);
+    });
+  });
+
+  test("should undo a transaction as one step", async () => {
+    await createAsyncRoot(async () => {
+      const list = new ObservableList<string>();
+      const history = useHistory(new History());
+      history.history.track(list);
+
+      history.transaction(() => {
+        list.push("a");
+        list.push("b");
+      });
+      history.undo();
+
+      expect(list.toJSON()).toEqual([]);
+      expect(history.canUndo()).toBe(false);
+    });
+  });
+
+  test("should forget the changes when cleared", async () => {
+    await createAsyncRoot(async () => {
+      const list = new ObservableList<string>();
+      const history = useHistory(new History());
+      history.history.track(list);
+
+      list.push("a");
+      history.clear();
+
+      expect(history.canUndo()).toBe(false);
+      expect(history.undo()).toBe(false);
+    });
+  });
+});
+
+describe("createHistory", () => {
+  test("should undo and redo changes of the form", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TestFormFields>({
+        defaultValues: () => ({ username: "john" }),
+      });
+      const history = createHistory(form);
+
+      form.field("username").setValue("jane");
+      expect(history.canUndo()).toBe(true);
+
+      history.undo();
+      expect(form.field("username").value()).toBe("john");
+
+      history.redo();
+      expect(form.field("username").value()).toBe("jane");
+    });
+  });
+
+  test("should stop recording when disposed", async () => {
+    let history: HistoryApi | undefined;
+    const form = new Form<TestFormFields>({});
+
+    await createAsyncRoot(async () => {
+      history = createHistory(form);
+    });
+
+    form.field("username").setValue("jane");
+    expect(history!.history.canUndo).toBe(false);
+  });
+});
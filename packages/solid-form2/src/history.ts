@@ -0,0 +1,59 @@
+import {
+  Form as CoreForm,
+  trackForm,
+  type FormFields,
+} from "@kildevaeld/form";
+import { History, type HistoryOptions } from "@kildevaeld/model";
+import { Accessor, onCleanup } from "solid-js";
+import { createTriggerCache } from "@solid-primitives/trigger";
+import type { FormApi } from "./form";
+import { useEvents } from "./hooks";
+
+export interface HistoryApi {
+  undo(): boolean;
+  redo(): boolean;
+  transaction<R>(fn: () => R): R;
+  clear(): void;
+  canUndo: Accessor<boolean>;
+  canRedo: Accessor<boolean>;
+  history: History;
+}
+
+/**
+ * Reactive accessors for `history`
+ */
+export function useHistory(history: History): HistoryApi {
+  const [track, dirty] = createTriggerCache<"$history">();
+
+  useEvents(history, {
+    change: () => dirty("$history"),
+  });
+
+  return {
+    undo: () => history.undo(),
+    redo: () => history.redo(),
+    transaction: (fn) => history.transaction(fn),
+    clear: () => history.clear(),
+    canUndo: () => {
+      track("$history");
+      return history.canUndo;
+    },
+    canRedo: () => {
+      track("$history");
+      return history.canRedo;
+    },
+    history,
+  };
+}
+
+/**
+ * Creates an undo/redo history recording the changes of `form`
+ */
+export function createHistory<T extends FormFields>(
+  form: FormApi<T> | CoreForm<T>,
+  options?: HistoryOptions,
+): HistoryApi {
+  const history = new History(options);
+  onCleanup(trackForm(history, form instanceof CoreForm ? form : form.form));
+  return useHistory(history);
+}
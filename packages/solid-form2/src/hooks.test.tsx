@@ -1,9 +1,15 @@
 import { describe, test, expect, vi } from "vitest";
 import { createRoot, createEffect, runWithOwner } from "solid-js";
-import { useEvent } from "./hooks.js";
+import { transaction, useEvent } from "./hooks.js";
+import { createForm } from "./form.js";
 import { EventEmitter } from "@kildevaeld/model";
 import { createAsyncRoot } from "./util.js";
 
+interface TestFormFields {
+  username: string;
+  email: string;
+}
+
 interface TestEvents {
   change: { value: string };
   save: { id: number };
@@ -195,3 +201,46 @@ describe("useEvent", () => {
     });
   });
 });
+
+describe("transaction", () => {
+  test("should re-run computations once for all changes", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TestFormFields>({});
+      const username = form.field("username");
+      const email = form.field("email");
+
+      const runs: string[] = [];
+      createEffect(() => runs.push(`${username.value()}:${email.value()}`));
+
+      // Wait for the effect to run
+      await Promise.resolve();
+
+      transaction(() => {
+        username.setValue("jane");
+        email.setValue("jane@example.com");
+      });
+
+      expect(runs).toEqual(["undefined:undefined", "jane:jane@example.com"]);
+    });
+  });
+
+  test("should return the result of the function", () => {
+    expect(transaction(() => 42)).toBe(42);
+  });
+
+  test("should deliver the changes before returning", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TestFormFields>({});
+      const listener = vi.fn();
+      form.form.on("change", listener);
+
+      transaction(() => {
+        form.field("username").setValue("jane");
+        form.field("email").setValue("jane@example.com");
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ names: ["username", "email"] });
+    });
+  });
+});
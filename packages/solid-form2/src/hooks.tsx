@@ -1,6 +1,18 @@
-import type { IEventEmitter, Subscription } from "@kildevaeld/model";
-import { Accessor, createEffect, onCleanup } from "solid-js";
-import { e } from "../../form/dist/field-C_JBlJF9";
+import {
+  batch as batchChanges,
+  type IEventEmitter,
+  type Subscription,
+} from "@kildevaeld/model";
+import { Accessor, batch, createEffect, onCleanup } from "solid-js";
+
+/**
+ * Runs `fn` in a model `batch` inside a Solid `batch`. The deferred
+ * notifications are delivered before the Solid batch ends, so the triggers
+ * they mark dirty re-run their computations once.
+ */
+export function transaction<R>(fn: () => R): R {
+  return batch(() => batchChanges(fn));
+}
 
 export function useEvent<E, K extends keyof E = keyof E>(
   emitter: IEventEmitter<E>,
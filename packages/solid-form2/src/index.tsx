@@ -1,5 +1,8 @@
 export * from "./form.js";
+export * from "./history.js";
+export * from "./selector.js";
+export * from "./view.js";
 export * from "./Form.jsx";
-export type { FieldApi } from "./field.js";
+export type { ControlOptions, FieldApi, FieldArrayApi } from "./field.js";
 export { min, max, pattern } from "@kildevaeld/form";
 export { Each } from "./Each.jsx";
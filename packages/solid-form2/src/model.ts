@@ -1,8 +1,14 @@
-import type { Model, ModelFields } from "@kildevaeld/model";
+import type {
+  DefinedModel,
+  ModelFields,
+  ModelValues,
+} from "@kildevaeld/model";
 import { createTriggerCache } from "@solid-primitives/trigger";
 import { useEvent } from "./hooks";
 
-export function createModel<T extends ModelFields>(model: Model<T>) {
+export function createModel<F extends ModelFields>(
+  model: DefinedModel<F, any>,
+) {
   const [track, dirty] = createTriggerCache();
 
   useEvent(model, "change", (e) => {
@@ -10,11 +16,11 @@ export function createModel<T extends ModelFields>(model: Model<T>) {
   });
 
   return {
-    get<K extends keyof T>(key: K) {
+    get<K extends keyof F>(key: K): ModelValues<F>[K] | undefined {
       track(key);
       return model.get(key);
     },
-    set<K extends keyof T>(key: K, value: T[K] | undefined) {
+    set<K extends keyof F>(key: K, value: ModelValues<F>[K] | undefined) {
       model.set(key, value);
     },
   };
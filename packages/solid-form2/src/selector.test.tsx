@@ -0,0 +1,106 @@
+import { describe, test, expect } from "vitest";
+import { createEffect } from "solid-js";
+import { createForm } from "./form.js";
+import { createFormSelector } from "./selector.js";
+import { transaction } from "./hooks.js";
+import { createAsyncRoot } from "./util.js";
+
+interface TestFormFields {
+  username: string;
+  email: string;
+}
+
+describe("createFormSelector", () => {
+  test("should start with the selected value", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TestFormFields>({
+        defaultValues: () => ({ username: "john" }),
+      });
+
+      const username = createFormSelector(form, (values) => values.username);
+
+      expect(username()).toBe("john");
+    });
+  });
+
+  test("should only re-run when the selection changes", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TestFormFields>({
+        defaultValues: () => ({ username: "john", email: "john@example.com" }),
+      });
+
+      const username = createFormSelector(form, (values) => values.username);
+      const runs: string[] = [];
+      createEffect(() => runs.push(username()));
+
+      // Wait for the effect to run
+      await Promise.resolve();
+
+      // Other fields leave the selection as it is
+      form.field("email").setValue("jane@example.com");
+      expect(runs).toEqual(["john"]);
+
+      form.field("username").setValue("jane");
+      expect(runs).toEqual(["john", "jane"]);
+    });
+  });
+
+  test("should deliver one update per transaction", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TestFormFields>({});
+
+      const both = createFormSelector(
+        form,
+        (values) => `${values.username}:${values.email}`,
+      );
+      const runs: string[] = [];
+      createEffect(() => runs.push(both()));
+
+      // Wait for the effect to run
+      await Promise.resolve();
+
+      transaction(() => {
+        form.field("username").setValue("jane");
+        form.field("email").setValue("jane@example.com");
+      });
+
+      expect(runs).toEqual([
+        "undefined:undefined",
+        "jane:jane@example.com",
+      ]);
+    });
+  });
+
+  test("should use the given equality", async () => {
+    await createAsyncRoot(async () => {
+      const form = createForm<TestFormFields>({
+        defaultValues: () => ({ username: "john" }),
+      });
+
+      const username = createFormSelector(
+        form,
+        (values) => values.username,
+        { equality: (a, b) => a?.toLowerCase() === b?.toLowerCase() },
+      );
+      const runs: string[] = [];
+      createEffect(() => runs.push(username()));
+
+      // Wait for the effect to run
+      await Promise.resolve();
+
+      form.field("username").setValue("JOHN");
+      expect(runs).toEqual(["john"]);
+    });
+  });
+
+  test("should accept a core form", async () => {
+    await createAsyncRoot(async () => {
+      const { form } = createForm<TestFormFields>({});
+
+      const username = createFormSelector(form, (values) => values.username);
+      form.field("username").setValue("jane");
+
+      expect(username()).toBe("jane");
+    });
+  });
+});
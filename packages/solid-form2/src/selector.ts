@@ -0,0 +1,26 @@
+import {
+  Form as CoreForm,
+  type FormFields,
+  type SubscribeOptions,
+} from "@kildevaeld/form";
+import { Accessor, createSignal, onCleanup } from "solid-js";
+import type { FormApi } from "./form";
+
+/**
+ * The part of the form value picked by `selector`. Computations reading it
+ * only run again when the selection changes, see `Form.subscribe`.
+ */
+export function createFormSelector<T extends FormFields, S>(
+  form: FormApi<T> | CoreForm<T>,
+  selector: (values: T) => S,
+  options?: SubscribeOptions<S>,
+): Accessor<S> {
+  const core = form instanceof CoreForm ? form : form.form;
+  const [value, setValue] = createSignal<S>(selector(core.toJSON()), {
+    equals: false,
+  });
+
+  onCleanup(core.subscribe(selector, (next) => setValue(() => next), options));
+
+  return value;
+}
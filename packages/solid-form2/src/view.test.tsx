@@ -0,0 +1,62 @@
+import { describe, test, expect } from "vitest";
+import { createRoot } from "solid-js";
+import { ObservableList } from "@kildevaeld/model";
+import { createListView } from "./view.js";
+import { createAsyncRoot } from "./util.js";
+
+describe("createListView", () => {
+  test("should follow the changes of the list", async () => {
+    await createAsyncRoot(async () => {
+      const list = new ObservableList([3, 1, 2]);
+
+      const view = createListView(list, (view) =>
+        view.filter((n) => n !== 2).sort((a, b) => a - b),
+      );
+      expect(view.toJSON()).toEqual([1, 3]);
+
+      list.push(0);
+      list.remove(0);
+
+      expect(view.toJSON()).toEqual([0, 1]);
+    });
+  });
+
+  test("should view the list as it is without a build function", async () => {
+    await createAsyncRoot(async () => {
+      const list = new ObservableList(["a"]);
+
+      const view = createListView(list);
+      list.push("b");
+
+      expect(view.toJSON()).toEqual(["a", "b"]);
+    });
+  });
+
+  test("should map the items", async () => {
+    await createAsyncRoot(async () => {
+      const list = new ObservableList(["a", "b"]);
+
+      const view = createListView(list, (view) =>
+        view.map((s) => s.toUpperCase()),
+      );
+      list.set(0, "c");
+
+      expect(view.toJSON()).toEqual(["C", "B"]);
+    });
+  });
+
+  test("should dispose the views with the owner", () => {
+    const list = new ObservableList([1, 2]);
+
+    const view = createRoot((dispose) => {
+      const view = createListView(list, (view) => view.filter((n) => n > 1));
+      dispose();
+      return view;
+    });
+
+    list.push(3);
+
+    expect(view.isDisposed).toBe(true);
+    expect(view.toJSON()).toEqual([2]);
+  });
+});
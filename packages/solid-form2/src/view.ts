@@ -0,0 +1,17 @@
+import type { ListView, ObservableList } from "@kildevaeld/model";
+import { onCleanup } from "solid-js";
+
+/**
+ * A live view of `list` for rendering with `Each`, eg.
+ * `createListView(todos, (view) => view.filter(isOpen).sort(byTitle))`.
+ * The views are disposed with the owner.
+ */
+export function createListView<T, U = T>(
+  list: ObservableList<T>,
+  build: (view: ListView<T>) => ListView<U> = (view) =>
+    view as unknown as ListView<U>,
+): ListView<U> {
+  const root = list.view();
+  onCleanup(() => root.dispose());
+  return build(root);
+}